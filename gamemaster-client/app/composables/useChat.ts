@@ -1,21 +1,56 @@
-import { ref, reactive, computed } from 'vue'
-import { useChatStream } from './useChatStream'
+import { ref, reactive, computed, watch } from 'vue'
+import { useChatStream, type ToolCallEvent, type ToolResultEvent } from './useChatStream'
 import { useMcpClient } from './useMcpClient'
 import { useClientToolCalling } from './useClientToolCalling'
 import { useStreamPagination } from './useStreamPagination'
+import { useUsage, type UsageTotals } from './useUsage'
 import { debug } from '../utils/debug'
 
-export type Msg = { role: 'system' | 'user' | 'assistant'; content: string | any[] }
-export type DisplayMsg = { role: 'system' | 'user' | 'assistant'; content: string }
+// One tool call as a card in the chat. `offset` is how much reply text came before the call,
+// so live cards sit where the call happened; cards without one follow the message text.
+export type DisplayToolCall = {
+  id: string
+  name: string
+  arguments?: any
+  result?: string       // undefined while the call is running
+  isError?: boolean
+  durationMs?: number   // known for calls made in this tab
+  offset?: number
+}
+
+// `thinking` and `toolCalls` are display-only; they are never sent to the MCP transcript
+export type Msg = { role: 'system' | 'user' | 'assistant'; content: string | any[]; thinking?: string; toolCalls?: DisplayToolCall[] }
+export type DisplayMsg = { role: 'system' | 'user' | 'assistant'; content: string; thinking?: string; toolCalls?: DisplayToolCall[] }
+
+// Tool cards are on by default (the DM's view); players can hide them
+const SHOW_TOOL_CALLS_KEY = 'showToolCalls'
+
+function getStoredShowToolCalls(): boolean {
+  try {
+    return localStorage.getItem(SHOW_TOOL_CALLS_KEY) !== 'false'
+  } catch { return true }
+}
 
 export type ProviderMode =
   | 'anthropic-server-mcp'    // Current: Anthropic handles MCP
   | 'anthropic-client-mcp'    // New: Client handles tools
   | 'openai-client-mcp'       // New: OpenAI with client tools
+  | 'openai-server-mcp'       // OpenAI Responses API calls the MCP servers itself
+  | 'openaicompat-client-mcp' // Local OpenAI-compatible /chat/completions server with client tools
+  | 'anthropic-server-loop'   // Nitro server runs the tool loop against MCP
+
+// tool_result content is a string or a list of content blocks
+function toolResultText(content: any): string {
+  if (typeof content === 'string') return content
+  if (Array.isArray(content)) return content.map(b => b?.text ?? '').join('\n')
+  return content == null ? '' : JSON.stringify(content)
+}
 
-// Helper function to convert messages to display-friendly format
-function convertToDisplayMessages(messages: Msg[]): DisplayMsg[] {
+// Helper function to convert messages to display-friendly format.
+// tool_use blocks become tool cards on their message; tool_result messages fill in those cards.
+function convertToDisplayMessages(messages: Msg[], toolDurations: Map<string, number>): DisplayMsg[] {
   const displayMessages: DisplayMsg[] = []
+  const cardsById = new Map<string, DisplayToolCall>()
 
   for (const msg of messages) {
     // System and user messages with string content pass through
@@ -24,33 +59,39 @@ function convertToDisplayMessages(messages: Msg[]): DisplayMsg[] {
       continue
     }
 
-    // Handle assistant messages with content arrays
-    if (Array.isArray(msg.content)) {
-      // Extract only text blocks, skip tool_use blocks
-      const textParts: string[] = []
+    if (!Array.isArray(msg.content)) continue
+
+    // User messages carrying tool results are shown on the cards, not as messages
+    if (msg.role === 'user' && msg.content.length > 0 && msg.content[0]?.type === 'tool_result') {
       for (const block of msg.content) {
-        if (block.type === 'text' && block.text) {
-          textParts.push(block.text)
-        }
-        // Skip tool_use blocks - don't display them
+        const card = cardsById.get(block.tool_use_id)
+        if (!card) continue
+        card.result = toolResultText(block.content)
+        // Transcripts record failures as "Error..." results
+        card.isError = !!block.is_error || card.result.startsWith('Error')
       }
+      continue
+    }
 
-      // Only add if there's text content
-      if (textParts.length > 0) {
-        displayMessages.push({
-          role: msg.role,
-          content: textParts.join('\n\n')
-        })
+    // Handle assistant messages with content arrays
+    const textParts: string[] = []
+    const toolCalls: DisplayToolCall[] = []
+    for (const block of msg.content) {
+      if (block.type === 'text' && block.text) {
+        textParts.push(block.text)
+      } else if (block.type === 'tool_use') {
+        const card: DisplayToolCall = { id: block.id, name: block.name, arguments: block.input, durationMs: toolDurations.get(block.id) }
+        cardsById.set(block.id, card)
+        toolCalls.push(card)
       }
     }
 
-    // Skip user messages with tool_result arrays entirely
-    if (msg.role === 'user' && Array.isArray(msg.content)) {
-      // Check if it's tool results
-      const isToolResults = msg.content.length > 0 && msg.content[0]?.type === 'tool_result'
-      if (isToolResults) {
-        continue // Skip this message entirely
-      }
+    if (textParts.length > 0 || toolCalls.length > 0) {
+      displayMessages.push({
+        role: msg.role,
+        content: textParts.join('\n\n'),
+        ...(toolCalls.length ? { toolCalls } : {})
+      })
     }
   }
 
@@ -62,22 +103,46 @@ export function useChat() {
   const { recordInteractionWithTools, fetchTranscriptAsMessages, fetchCurrentPrompt } = useMcpClient()
   const { enhancePayloadWithTools, isClientMcpMode } = useClientToolCalling()
   const pagination = useStreamPagination()
+  const usage = useUsage()
 
   // --- provider + models ---
   const provider = ref<ProviderMode>('anthropic-client-mcp')
   const modelByProvider: Record<ProviderMode, string> = {
     'anthropic-server-mcp': 'claude-sonnet-4-5-20250929',
     'anthropic-client-mcp': 'claude-sonnet-4-5-20250929',
-    'openai-client-mcp': 'gpt-5'
+    'openai-client-mcp': 'gpt-5',
+    'openai-server-mcp': 'gpt-5',
+    'openaicompat-client-mcp': 'local-model', // server substitutes OPENAICOMPAT_MODEL when set
+    'anthropic-server-loop': 'claude-sonnet-4-5-20250929'
+  }
+
+  // --- extended thinking (off by default; toggled for hard rules adjudications) ---
+  const thinkingEnabled = ref(false)
+  const thinkingBudgetByProvider: Record<ProviderMode, number> = {
+    'anthropic-server-mcp': 8000,
+    'anthropic-client-mcp': 8000,
+    'openai-client-mcp': 8000, // mapped to a reasoning effort on the server
+    'openai-server-mcp': 8000,
+    'openaicompat-client-mcp': 0, // local servers have no reasoning controls
+    'anthropic-server-loop': 8000
   }
 
+  // --- tool cards (shown to the DM, hidden for players) ---
+  const showToolCalls = ref(getStoredShowToolCalls())
+  watch(showToolCalls, (value) => {
+    try { localStorage.setItem(SHOW_TOOL_CALLS_KEY, String(value)) } catch {}
+  })
+  // Durations aren't in the transcript; keep the ones measured in this tab for reloaded cards
+  const toolDurations = new Map<string, number>()
+
   // --- system message (from MCP server) ---
   const currentPrompt = ref<string>('You are a helpful assistant.')
 
   // --- conversation state ---
   const messages = ref<Msg[]>([{ role: 'system', content: currentPrompt.value }])
-  const displayMessages = computed(() => convertToDisplayMessages(messages.value))
+  const displayMessages = computed(() => convertToDisplayMessages(messages.value, toolDurations))
   const error = ref<string | null>(null)
+  const reconnecting = ref(false) // stream dropped and is resuming
   const stop = ref<null | (() => void)>(null) // active stream closer
   const chatInterfaceRef = ref<any>(null) // Reference to ChatInterface component
 
@@ -131,7 +196,7 @@ export function useChat() {
     messages.value.push(userMsg)
 
     // reactive assistant placeholder
-    const assistant = reactive<Msg>({ role: 'assistant', content: '' })
+    const assistant = reactive<Msg>({ role: 'assistant', content: '', thinking: '', toolCalls: [] })
     messages.value.push(assistant)
 
     // Initialize pagination for this message
@@ -141,16 +206,18 @@ export function useChat() {
     pagination.init(Date.now().toString(), estimatedCharsPerScreen)
 
     // Extract base provider for backward compatibility
-    const baseProvider = provider.value.split('-')[0] as 'anthropic' | 'openai'
+    const baseProvider = provider.value.split('-')[0] as 'anthropic' | 'openai' | 'openaicompat'
 
     let payload: any = {
       provider: baseProvider,
       providerMode: provider.value,
       model: modelByProvider[provider.value],
       system: currentPrompt.value,
-      messages: messages.value.filter(m => m.role !== 'system'),
+      // The empty assistant placeholder is for display only; providers reject empty turns
+      messages: messages.value.filter(m => m.role !== 'system' && m !== assistant),
       maxTokens: 16384,
-      temperature: 0.2
+      temperature: 0.2,
+      thinkingBudget: thinkingEnabled.value ? thinkingBudgetByProvider[provider.value] : 0
     }
 
     // For client MCP modes, enhance payload with tools
@@ -188,6 +255,10 @@ export function useChat() {
     // Track actual response content separate from tool display
     let actualContent = ''
 
+    // Aborting cancels the whole turn, including tool calls in flight in client MCP modes
+    const controller = new AbortController()
+    stop.value = () => controller.abort()
+
     try {
       const closeFunction = await openChatStreamWithToolCalling(
         payload,
@@ -210,11 +281,32 @@ export function useChat() {
         },
         {
           debug: false,
-          // Handle tool display messages separately - show to user but don't record
-          onToolDisplay: (message: string) => {
-            // Show tool message to user immediately
-            pending += `\n\n${message}\n\n`
-            if (!raf) raf = requestAnimationFrame(flush)
+          signal: controller.signal,
+          // Tool cards - shown to the user but never recorded as reply text
+          onToolCall: (call: ToolCallEvent) => {
+            const cards = assistant.toolCalls!
+            const existing = cards.find(c => c.id === call.id)
+            if (existing) Object.assign(existing, call)
+            else cards.push({ ...call, offset: actualContent.length })
+          },
+          onToolResult: (result: ToolResultEvent) => {
+            const card = assistant.toolCalls!.find(c => c.id === result.id)
+            if (result.durationMs !== undefined) toolDurations.set(result.id, result.durationMs)
+            if (!card) return
+            card.result = result.content ?? (result.isError ? 'Error' : '')
+            card.isError = result.isError
+            card.durationMs = result.durationMs
+          },
+          // Thinking streams into its own collapsible section, never into actualContent
+          onThinking: (text: string) => {
+            assistant.thinking += text
+          },
+          onReconnecting: (value: boolean) => {
+            reconnecting.value = value
+          },
+          // Aggregated token usage for the whole turn (all tool iterations)
+          onUsage: (turnUsage: UsageTotals) => {
+            usage.recordTurn(turnUsage, payload.model)
           },
           // ✅ When the stream ends, record interaction and refresh chat history
           onDone: async (gameResponses?: (string | any[])[]) => {
@@ -246,6 +338,10 @@ export function useChat() {
               debug.log('📝 Full recordInteractionWithTools payload:', recordPayload)
               await recordInteractionWithTools(recordPayload)
               await loadTranscriptToMessages()
+
+              // The transcript has no thinking; keep this turn's on the reloaded reply
+              const reloaded = messages.value[messages.value.length - 1]
+              if (assistant.thinking && reloaded?.role === 'assistant') reloaded.thinking = assistant.thinking
               if (onDone) await onDone()
             } catch (e: any) {
               error.value = `MCP error: ${e?.message ?? String(e)}`
@@ -256,7 +352,10 @@ export function useChat() {
 
       // Only set stop.value if it hasn't been cleared by onDone callback
       if (stop.value !== null) {
-        stop.value = closeFunction
+        stop.value = () => {
+          controller.abort()
+          closeFunction()
+        }
       }
     } catch (e: any) {
       error.value = e?.message ?? String(e)
@@ -311,12 +410,18 @@ export function useChat() {
   return {
     // State
     provider,
+    thinkingEnabled,
+    showToolCalls,
     currentPrompt,
     messages,
     displayMessages,
     error,
+    reconnecting,
     stop,
     isPaginationPaused: pagination.isPaused,
+    lastTurnUsage: usage.lastTurn,
+    sessionUsage: usage.session,
+    campaignUsage: usage.campaign,
 
     // Actions
     loadTranscriptToMessages,
@@ -1,7 +1,12 @@
 // composables/useChatStream.ts
 import { useClientToolCalling } from './useClientToolCalling'
 import { useToolCalling } from './useToolCalling'
+import { toolResultTranscriptText, type ToolCall, type ToolResult } from '#shared/utils/toolExecution'
+import { useToolApproval } from './useToolApproval'
+import { addUsage, emptyUsage, usageFromEvent, type UsageTotals } from './useUsage'
 import { debug } from '../utils/debug'
+import { openChatSse } from '../utils/chatSse'
+import type { StreamEvent, ThinkingBlock } from '../../types/chatStream'
 
 export type ToolCallInfo = {
   tool_name: string
@@ -10,16 +15,31 @@ export type ToolCallInfo = {
   tool_result: string
 }
 
+// Tool activity for the chat's tool cards, reported the same way in every provider mode
+export type ToolCallEvent = { id: string; name: string; arguments?: any }
+export type ToolResultEvent = { id: string; content?: string; isError: boolean; durationMs?: number }
+
 export function useChatStream() {
   const { isClientMcpMode } = useClientToolCalling()
   const { executeMcpTools } = useToolCalling()
+  const { reviewToolCalls, cancelPendingApprovals } = useToolApproval()
 
   type Err = any
   type Opts = {
     debug?: boolean
     onDone?: (gameResponses?: (string | ToolCallInfo[])[]) => void
-    onToolUseEvent?: (eventData: any) => void
-    onToolDisplay?: (message: string) => void
+    onStreamEvent?: (evt: StreamEvent) => void
+    // A tool call was made (arguments complete), then later its result arrived
+    onToolCall?: (call: ToolCallEvent) => void
+    onToolResult?: (result: ToolResultEvent) => void
+    // Streamed thinking / reasoning summary text; display only, never recorded
+    onThinking?: (text: string) => void
+    // The stream dropped and is resuming from its last frame id (true), or is back (false)
+    onReconnecting?: (reconnecting: boolean) => void
+    // Called once per stream (and once per turn from the tool loop) with aggregated usage
+    onUsage?: (usage: UsageTotals) => void
+    // Cancels the turn: closes the stream, aborts tool calls in flight, releases pending approvals
+    signal?: AbortSignal
   }
 
   async function openChatStreamWithToolCalling(
@@ -62,9 +82,20 @@ export function useChatStream() {
     const gameResponses: (string | ToolCallInfo[])[] = []
     let currentTextBuffer = '' // Accumulate text between tool calls
 
+    // Usage summed over every iteration of this turn
+    let turnUsage = emptyUsage()
+
+    const signal = opts?.signal
+    // The iteration's stream closes itself on abort; approvals waiting on the DM are released here
+    const onAbort = () => {
+      debug.log('🛑 Tool-aware stream cancelled')
+      cancelPendingApprovals()
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+
     try {
       // Main tool calling loop
-      while (shouldContinue && iteration < maxIterations) {
+      while (shouldContinue && iteration < maxIterations && !signal?.aborted) {
       iteration++
       debug.log(`🔄 Tool calling iteration ${iteration}/${maxIterations}`)
       const lastMessage = currentPayload.messages?.[currentPayload.messages.length - 1]
@@ -88,16 +119,13 @@ export function useChatStream() {
         lastMessage: lastMessagePreview
       })
 
-      // State for collecting tool calls from this iteration
-      const activeToolCalls = new Map<string, any>()
+      // State for collecting tool calls from this iteration, keyed by stream index
+      const activeToolCalls = new Map<number, any>()
+      const thinkingBlocks = new Map<number, ThinkingBlock>()
       let fullAssistantResponse = ''
       let hasToolCalls = false
       let streamComplete = false
 
-      // For OpenAI: accumulate deltas by output_index until response.completed
-      const pendingDeltas: Record<number, string> = {}
-      const finalArgumentsByIndex: Record<number, string> = {}
-
       const originalOnText = onText
       const iterationOnText = (text: string) => {
         fullAssistantResponse += text
@@ -120,153 +148,58 @@ export function useChatStream() {
             streamComplete = true
             resolve()
           },
-          onToolUseEvent: (eventData: any) => {
-            debug.log('🔧 Processing tool use event:', eventData)
+          onUsage: (usage: UsageTotals) => {
+            turnUsage = addUsage(turnUsage, usage)
+          },
+          onStreamEvent: (evt: StreamEvent) => {
+            debug.log('🔧 Processing stream event:', evt)
 
-            // Handle Anthropic tool use events
-            if (eventData.type === 'tool_use_start') {
+            if (evt.type === 'thinking_block') {
+              // Kept only to echo back on the next iteration
+              thinkingBlocks.set(evt.index, evt.block)
+            } else if (evt.type === 'tool_call_start') {
               hasToolCalls = true
-              const toolUse = eventData.tool_use
-              debug.log('🚀 Anthropic tool use started:', {
-                id: toolUse.id,
-                name: toolUse.name,
-                hasInput: !!toolUse.input
-              })
-
-              // Show tool call to user (separate from response content)
-              if (opts?.onToolDisplay) {
-                opts.onToolDisplay(`🔧 Calling ${toolUse.name}...`)
-              }
+              debug.log('🚀 Tool call started:', { index: evt.index, id: evt.id, name: evt.name })
 
-              activeToolCalls.set(toolUse.id, {
-                id: toolUse.id,
-                name: toolUse.name,
-                input: toolUse.input || {},
+              activeToolCalls.set(evt.index, {
+                id: evt.id,
+                name: evt.name,
+                input: {},
                 inputJson: '',
-                complete: false,
-                inputComplete: false
+                inputError: null as string | null,
+                complete: false
               })
-            } else if (eventData.type === 'tool_input_delta') {
-              // Collect input deltas to build complete JSON
-              const delta = eventData.delta
-              if (delta.partial_json) {
-                debug.log('📥 Anthropic tool input delta received:', delta.partial_json.length > 50 ?
-                  delta.partial_json.substring(0, 50) + '...' : delta.partial_json)
-
-                // Find the most recently started tool call that's still incomplete
-                let targetToolCall = null
-                for (const [, toolCall] of activeToolCalls) {
-                  if (!toolCall.complete && !toolCall.inputComplete) {
-                    targetToolCall = toolCall
-                    // Don't break - keep looking for the most recent one
-                  }
-                }
-
-                if (targetToolCall) {
-                  targetToolCall.inputJson += delta.partial_json
-                  debug.log('🔧 Building tool input for', targetToolCall.id, '- current length:', targetToolCall.inputJson.length)
-
-                  // Check if this JSON object is complete by counting braces
-                  const openBraces = (targetToolCall.inputJson.match(/\{/g) || []).length
-                  const closeBraces = (targetToolCall.inputJson.match(/\}/g) || []).length
-
-                  if (openBraces > 0 && openBraces === closeBraces) {
-                    debug.log('✅ Tool input JSON complete for', targetToolCall.id)
-                    targetToolCall.inputComplete = true
-                  }
-                } else {
-                  debug.log('⚠️ Received tool input delta but no active incomplete tool call found')
-                }
-              }
-            } else if (eventData.type === 'tool_use_complete') {
-              hasToolCalls = true
-              debug.log('✅ Anthropic tool use sequence complete')
-
-              // Mark all tool calls as complete so they can be processed
-              for (const [, toolCall] of activeToolCalls) {
-                toolCall.complete = true
-
-                // If we have accumulated JSON deltas, parse them now
-                if (toolCall.inputJson && !toolCall.inputComplete) {
-                  try {
-                    toolCall.input = JSON.parse(toolCall.inputJson)
-                    toolCall.inputComplete = true
-                    debug.log('✅ Parsed accumulated tool input for', toolCall.id, ':', toolCall.input)
-                  } catch (e) {
-                    debug.log('⚠️ Failed to parse accumulated JSON for', toolCall.id, '- using original input')
-                    toolCall.inputComplete = true
-                  }
-                }
-              }
-            }
-            // Handle OpenAI function call events (forwarded from server)
-            else if (eventData.type === 'function_call_arguments_delta') {
-              hasToolCalls = true
-              const delta = eventData.delta
-              const outputIndex = eventData.output_index
-
-              // Store delta by output_index for later processing
-              if (!pendingDeltas[outputIndex]) {
-                pendingDeltas[outputIndex] = ''
+            } else if (evt.type === 'tool_call_delta') {
+              const toolCall = activeToolCalls.get(evt.index)
+              if (toolCall) {
+                toolCall.inputJson += evt.delta
+              } else {
+                debug.log('⚠️ Received tool input delta for unknown index', evt.index)
               }
-              pendingDeltas[outputIndex] += delta
-            }
-            else if (eventData.type === 'function_call_arguments_done') {
-              const outputIndex = eventData.output_index
-              const finalArguments = eventData.arguments
-
-              // Store final arguments by output_index
-              if (!finalArgumentsByIndex[outputIndex]) {
-                finalArgumentsByIndex[outputIndex] = finalArguments
+            } else if (evt.type === 'tool_call_end') {
+              const toolCall = activeToolCalls.get(evt.index)
+              if (!toolCall) {
+                debug.log('⚠️ Received tool call end for unknown index', evt.index)
+                return
               }
-            }
-            else if (eventData.type === 'response_completed') {
-              const outputArray = eventData.output
-
-              // Now we have the complete output array with call_ids - process all function calls
-              outputArray.forEach((outputItem: any, index: number) => {
-                if (outputItem.type === 'function_call') {
-                  const callId = outputItem.call_id
-                  const functionName = outputItem.name
-                  const finalArguments = outputItem.arguments
-
-                  // Create tool call with correct call_id
-                  const targetToolCall = {
-                    id: callId, // Use call_id for tool execution
-                    callId: callId,
-                    name: functionName,
-                    input: {},
-                    inputJson: pendingDeltas[index] || '',
-                    complete: true,
-                    inputComplete: true
-                  }
-
-                  // Parse final arguments
-                  try {
-                    targetToolCall.input = JSON.parse(finalArguments)
-                  } catch (e) {
-                    targetToolCall.input = {}
-                  }
-
-                  // Store by call_id for tool execution
-                  activeToolCalls.set(callId, targetToolCall)
-
-                  // Show tool call to user (separate from response content)
-                  if (opts?.onToolDisplay) {
-                    opts.onToolDisplay(`🔧 Calling ${functionName}...`)
-                  }
+              // Providers that resend the final call (OpenAI) are authoritative over the deltas
+              if (evt.id) toolCall.id = evt.id
+              if (evt.name) toolCall.name = evt.name
+              if (typeof evt.arguments === 'string') toolCall.inputJson = evt.arguments
+              toolCall.complete = true
+              // The block is closed, so its JSON is final; an empty body means the tool takes no arguments
+              if (toolCall.inputJson) {
+                try {
+                  toolCall.input = JSON.parse(toolCall.inputJson)
+                } catch (e) {
+                  toolCall.inputError = e instanceof Error ? e.message : String(e)
+                  debug.error('❌ Failed to parse tool input JSON for', toolCall.id, ':', e)
+                  debug.log('Raw JSON:', toolCall.inputJson)
                 }
-              })
+              }
+              debug.log('✅ Tool call complete:', toolCall.id, '- input length:', toolCall.inputJson.length)
+              opts?.onToolCall?.({ id: toolCall.id, name: toolCall.name, arguments: toolCall.input })
             }
-
-            // Debug: show current state of activeToolCalls after processing this event
-            debug.log('🔍 Current activeToolCalls after event:', Array.from(activeToolCalls.entries()).map(([id, tc]) => ({
-              mapKey: id,
-              toolCallId: tc.id,
-              name: tc.name,
-              inputComplete: tc.inputComplete,
-              inputJsonLength: tc.inputJson?.length || 0
-            })))
           }
         }
 
@@ -284,6 +217,7 @@ export function useChatStream() {
       debug.log('⏳ Waiting for stream promise to resolve...')
       await streamPromise
       debug.log('✅ Stream promise resolved!')
+      if (signal?.aborted) break
 
       debug.log('🎯 Stream completed for iteration', iteration, '- hasToolCalls:', hasToolCalls)
 
@@ -294,34 +228,17 @@ export function useChatStream() {
         break
       }
 
-      // Process completed tool calls
-      debug.log('🔍 Processing activeToolCalls:', Array.from(activeToolCalls.entries()).map(([id, toolCall]) => ({
-        id: id,
-        toolCallId: toolCall.id,
-        name: toolCall.name,
-        hasInputJson: !!toolCall.inputJson,
-        inputJsonLength: toolCall.inputJson?.length || 0,
-        inputComplete: toolCall.inputComplete
-      })))
-
+      // Process completed tool calls in stream order
       const completedToolCalls = []
-      for (const [id, toolCall] of activeToolCalls) {
-        toolCall.complete = true
-
-        debug.log(`🔍 Processing tool call with map key: "${id}", toolCall.id: "${toolCall.id}", name: "${toolCall.name}"`)
-
-        // Parse the final JSON input if we have deltas
-        if (toolCall.inputJson) {
-          try {
-            toolCall.input = JSON.parse(toolCall.inputJson)
-            debug.log('✅ Parsed complete tool input for', id, ':', toolCall.input)
-          } catch (e) {
-            debug.error('❌ Failed to parse tool input JSON for', id, ':', e)
-            debug.log('Raw JSON:', toolCall.inputJson)
-            // Keep the original input if parsing fails
-          }
-        } else {
-          debug.log('⚠️ No inputJson deltas collected for tool', id, '- using initial input:', toolCall.input)
+      // Calls whose input JSON didn't parse: echoed with {} input and answered with the error, never executed
+      const inputErrors = new Map<string, string>()
+      for (const [index, toolCall] of [...activeToolCalls.entries()].sort(([a], [b]) => a - b)) {
+        debug.log(`🔍 Processing tool call at index ${index}, id: "${toolCall.id}", name: "${toolCall.name}"`)
+
+        // A block without content_block_stop (stream cut short) may hold truncated input
+        if (!toolCall.complete) {
+          debug.error('❌ Skipping incomplete tool call:', { id: toolCall.id, name: toolCall.name, index })
+          continue
         }
 
         // Skip tool calls that don't have proper ID or name
@@ -329,7 +246,7 @@ export function useChatStream() {
           debug.error('❌ Skipping invalid tool call - missing ID or name:', {
             id: toolCall.id,
             name: toolCall.name,
-            mapKey: id
+            index
           })
           continue
         }
@@ -344,6 +261,7 @@ export function useChatStream() {
         }
 
         completedToolCalls.push(completeToolCall)
+        if (toolCall.inputError) inputErrors.set(toolCall.id, toolCall.inputError)
         debug.log('🎯 Complete tool call assembled:', {
           id: completeToolCall.id,
           name: completeToolCall.function.name,
@@ -378,8 +296,26 @@ export function useChatStream() {
         // Execute tools and prepare next iteration
         debug.log(`⚙️ Executing ${newToolCalls.length} tool calls...`)
         debug.log('🔍 Tool calls being executed:', newToolCalls.map(tc => ({ id: tc.id, name: tc.function.name })))
-        const toolResults = await executeMcpTools(newToolCalls)
+        // Mutating tools wait for the DM in approval mode; rejected calls never reach MCP
+        const runnable = newToolCalls.filter(tc => !inputErrors.has(tc.id)) as ToolCall[]
+        const { approved, rejected } = await reviewToolCalls(runnable, currentPayload.tools || [])
+        const executed = approved.length ? await executeMcpTools(approved, signal) : []
+        const malformed: ToolResult[] = [...inputErrors].map(([id, message]) => ({
+          tool_call_id: id,
+          isError: true,
+          content: `Error parsing tool arguments: ${message}. The tool was not executed; send its arguments as one complete JSON object.`
+        }))
+        const resultById = new Map<string, ToolResult>([...executed, ...rejected, ...malformed].map(r => [r.tool_call_id, r]))
+        const toolResults = newToolCalls.map((tc): ToolResult => resultById.get(tc.id) ?? { tool_call_id: tc.id, isError: true, content: 'Error: No result returned' })
         debug.log('🎯 Tool execution results:', toolResults)
+        for (const result of toolResults) {
+          opts?.onToolResult?.({
+            id: result.tool_call_id,
+            content: result.content,
+            isError: !!result.isError,
+            durationMs: result.durationMs
+          })
+        }
         debug.log('🔍 Tool result IDs:', toolResults.map(tr => ({ tool_call_id: tr.tool_call_id, hasId: !!tr.tool_call_id })))
 
         // Collect tool calls with their results for recording
@@ -389,14 +325,19 @@ export function useChatStream() {
             tool_name: toolCall.function.name,
             tool_id: toolCall.id,
             tool_parameters: JSON.parse(toolCall.function.arguments),
-            tool_result: result?.content || 'Error: No result returned'
+            tool_result: toolResultTranscriptText(result)
           }
         })
         gameResponses.push(toolCallsForRecording)
+        // Calls that finished before the cancel still changed the game; record them, then stop
+        if (signal?.aborted) break
 
         // Track failed tool calls
         toolResults.forEach((result, index) => {
-          if (result.content.startsWith('Error')) {
+          // Unparseable input isn't tied to the arguments the signature would record, and a
+          // DM rejection isn't a failure of the tool
+          const wasRejected = rejected.some(r => r.tool_call_id === result.tool_call_id)
+          if (result.isError && !inputErrors.has(result.tool_call_id) && !wasRejected) {
             const toolCall = newToolCalls[index]
             const toolSignature = `${toolCall.function.name}:${toolCall.function.arguments}`
             failedToolCalls.add(toolSignature)
@@ -404,58 +345,21 @@ export function useChatStream() {
           }
         })
 
-        // Format messages for next iteration
+        // Format messages for next iteration; the server adapter converts them per provider
         const { assistantMessage, toolResultMessages } = formatToolMessages(
           fullAssistantResponse,
           newToolCalls,
           toolResults,
-          currentPayload.provider || currentPayload.providerMode?.split('-')[0]
+          [...thinkingBlocks.entries()].sort(([a], [b]) => a - b).map(([, block]) => block)
         )
 
-        // Update payload for next iteration
-        const baseProvider = currentPayload.provider || currentPayload.providerMode?.split('-')[0]
-
-        if (baseProvider === 'anthropic') {
-          // Anthropic uses messages array with role-based messages
-          currentPayload = {
-            ...currentPayload,
-            messages: [
-              ...currentPayload.messages,
-              assistantMessage,
-              ...toolResultMessages
-            ]
-          }
-        } else {
-          // OpenAI responses API uses input array with function_call_output objects
-          // Convert existing messages to input format if needed
-          const existingInput = currentPayload.input || currentPayload.messages?.map((m: any) => ({
-            role: m.role,
-            content: m.content
-          })) || []
-
-          debug.log('🔍 Existing input length:', existingInput.length)
-          debug.log('🔍 Tool result messages to add:', toolResultMessages.length)
-          debug.log('🔍 Tool result messages:', JSON.stringify(toolResultMessages, null, 2))
-
-          // Add assistant response to input
-          const newInput = [
-            ...existingInput,
-            { role: 'assistant', content: fullAssistantResponse }
+        currentPayload = {
+          ...currentPayload,
+          messages: [
+            ...currentPayload.messages,
+            assistantMessage,
+            ...toolResultMessages
           ]
-
-          // Add function call outputs directly to input array
-          newInput.push(...toolResultMessages)
-
-          debug.log('🔍 Final input array length:', newInput.length)
-          debug.log('🔍 Last few items in input array:', JSON.stringify(newInput.slice(-5), null, 2))
-
-          currentPayload = {
-            ...currentPayload,
-            input: newInput,
-            // Keep messages field for validation, but server will use input for OpenAI
-            messages: newInput.filter(item => item.role && item.content)
-          }
-
         }
 
         debug.log('🔄 Prepared next iteration with tool results')
@@ -471,6 +375,8 @@ export function useChatStream() {
     } catch (error) {
       debug.error('❌ Error in tool calling orchestration:', error)
     } finally {
+      signal?.removeEventListener('abort', onAbort)
+
       // Flush any remaining text
       if (currentTextBuffer.trim()) {
         gameResponses.push(currentTextBuffer)
@@ -482,6 +388,10 @@ export function useChatStream() {
       debug.log('🔍 Total game responses collected:', gameResponses.length)
 
       try {
+        if (turnUsage.calls > 0) {
+          debug.log('💰 Usage for this turn:', turnUsage)
+          opts?.onUsage?.(turnUsage)
+        }
         if (opts?.onDone) {
           debug.log('▶️ Calling onDone callback with game responses...')
           // Pass gameResponses only if there are any, otherwise undefined
@@ -496,96 +406,61 @@ export function useChatStream() {
     return closeFunction || (() => {})
   }
 
+  // Build the provider-neutral (Anthropic-style) continuation for one tool iteration
   function formatToolMessages(
     fullResponse: string,
     toolCalls: any[],
     toolResults: any[],
-    baseProvider: string
+    thinkingBlocks: ThinkingBlock[] = []
   ) {
-    let assistantMessage: any
-    let toolResultMessages: any[] = []
-
-    if (baseProvider === 'anthropic') {
-      // For Anthropic, assistant message should contain tool_use content blocks
-      const content = []
-
-      // Add text content if there is any
-      if (fullResponse.trim()) {
-        content.push({
-          type: 'text',
-          text: fullResponse
-        })
-      }
+    // Assistant message contains the text followed by tool_use content blocks.
+    // Thinking blocks lead the turn unchanged - providers verify their signature.
+    const content: any[] = [...thinkingBlocks]
+
+    // Add text content if there is any
+    if (fullResponse.trim()) {
+      content.push({
+        type: 'text',
+        text: fullResponse
+      })
+    }
 
-      // Add tool use blocks
-      toolCalls.forEach(toolCall => {
-        content.push({
-          type: 'tool_use',
-          id: toolCall.id,
-          name: toolCall.function.name,
-          input: JSON.parse(toolCall.function.arguments)
-        })
+    // Add tool use blocks
+    toolCalls.forEach(toolCall => {
+      content.push({
+        type: 'tool_use',
+        id: toolCall.id,
+        name: toolCall.function.name,
+        input: JSON.parse(toolCall.function.arguments)
       })
+    })
 
-      assistantMessage = {
-        role: 'assistant',
-        content: content
-      }
+    const assistantMessage = {
+      role: 'assistant',
+      content: content
+    }
 
-      // Anthropic format: role "user" with tool_result content blocks
-      const toolResultContent = toolResults.map(result => ({
+    // Tool results go back as a user message with tool_result content blocks
+    const toolResultContent = toolResults.map(result => {
+      if (!result.tool_call_id) {
+        debug.error('❌ Missing tool_call_id in result:', result)
+        throw new Error(`Missing tool_call_id in tool result: ${JSON.stringify(result)}`)
+      }
+      return {
         type: 'tool_result',
         tool_use_id: result.tool_call_id,
-        content: result.content
-      }))
-
-      toolResultMessages = [{
-        role: 'user',
-        content: toolResultContent
-      }]
-    } else {
-      // OpenAI responses API format - different from chat completions!
-      // For responses API, we need to add function call outputs to the input array
-      assistantMessage = {
-        role: 'assistant',
-        content: fullResponse
+        content: result.content,
+        ...(result.isError ? { is_error: true } : {})
       }
+    })
 
-      // OpenAI responses API format: need both function_call and function_call_output objects
-      const functionCallMessages: any[] = []
-      const functionCallOutputMessages: any[] = []
-
-      // Create function_call objects from the tool calls
-      toolCalls.forEach(toolCall => {
-        functionCallMessages.push({
-          id: `fc_${toolCall.id.replace('call_', '')}`, // Convert call_id to fc_ format for id
-          call_id: toolCall.id, // Use the actual call_id
-          type: 'function_call',
-          name: toolCall.function.name,
-          arguments: toolCall.function.arguments
-        })
-      })
-
-      // Create function_call_output objects from the tool results
-      toolResults.forEach(result => {
-        if (!result.tool_call_id) {
-          debug.error('❌ Missing tool_call_id in result:', result)
-          throw new Error(`Missing tool_call_id in tool result: ${JSON.stringify(result)}`)
-        }
-
-        functionCallOutputMessages.push({
-          type: 'function_call_output',
-          call_id: result.tool_call_id,
-          output: result.content
-        })
-      })
-
-      // Combine both function_call and function_call_output messages
-      toolResultMessages = [...functionCallMessages, ...functionCallOutputMessages]
-    }
+    const toolResultMessages = [{
+      role: 'user',
+      content: toolResultContent
+    }]
 
-    debug.log('🔧 Formatted assistant message for', baseProvider, ':', JSON.stringify(assistantMessage, null, 2))
-    debug.log('🔧 Formatted tool result messages for', baseProvider, ':', JSON.stringify(toolResultMessages, null, 2))
+    debug.log('🔧 Formatted assistant message:', JSON.stringify(assistantMessage, null, 2))
+    debug.log('🔧 Formatted tool result messages:', JSON.stringify(toolResultMessages, null, 2))
 
     return { assistantMessage, toolResultMessages }
   }
@@ -597,8 +472,8 @@ export function useChatStream() {
     onError?: (err: Err) => void,
     opts?: Opts
   ) {
-    debug.log('💫 Creating chat session...')
-    debug.log('📋 Session payload:', {
+    debug.log('💫 Opening chat stream...')
+    debug.log('📋 Stream payload:', {
       provider: payload.provider,
       providerMode: payload.providerMode,
       model: payload.model,
@@ -617,130 +492,109 @@ export function useChatStream() {
       })
     }
 
-    // 1) create session
-    const resp = await fetch('/api/chat/session', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(payload),
-      credentials: 'same-origin'
-    })
-    if (!resp.ok) {
-      const errorText = await resp.text()
-      debug.error('❌ Session creation failed:', resp.status, errorText)
-      throw new Error(errorText)
-    }
-    const { sid } = await resp.json()
-    debug.log('✅ Session created:', sid)
-
-    // 2) open EventSource
-    const origin = window.location.origin
-    const url = `${origin}/api/chat/stream?sid=${encodeURIComponent(sid)}${opts?.debug ? '&debug=1' : ''}`
-    debug.log('🌊 Opening EventSource stream:', url)
-    const es = new EventSource(url)
+    // Usage events arrive once per upstream call (several in server-loop mode)
+    let streamUsage = emptyUsage()
 
-    const safeDone = () => {
-      debug.log('🏁 Stream ending - calling onDone and closing EventSource')
+    // An llm-error followed by the final done frame must only finish the stream once
+    let finished = false
+    const safeDone = (gameResponses?: (string | ToolCallInfo[])[]) => {
+      if (finished) return
+      finished = true
+      debug.log('🏁 Stream ending - calling onDone')
       debug.log('🔍 onDone callback exists:', !!opts?.onDone)
       try {
+        if (streamUsage.calls > 0) opts?.onUsage?.(streamUsage)
         if (opts?.onDone) {
           debug.log('▶️ Calling onDone callback...')
-          opts.onDone()
+          opts.onDone(gameResponses)
           debug.log('✅ onDone callback completed')
         }
       } catch (error) {
         debug.error('❌ Error in onDone callback:', error)
-      } finally {
-        debug.log('🔒 Closing EventSource')
-        es.close()
       }
     }
 
-    es.onmessage = (ev) => {
-      try {
-        const obj = JSON.parse(ev.data)
-        debug.log('📨 Received message event:', obj)
-        if (typeof obj.text === 'string') {
-          debug.log('📝 Text content:', obj.text.length > 50 ? obj.text.substring(0, 50) + '...' : obj.text)
-          onText(obj.text)
-        }
-        if (obj.done) {
-          debug.log('✅ Stream marked as done')
-          safeDone()
-        }
-      } catch (e) {
-        debug.log('⚠️ Ignoring non-JSON frame:', ev.data)
+    const handleMessage = (obj: any) => {
+      debug.log('📨 Received message event:', obj)
+      if (typeof obj.text === 'string') {
+        debug.log('📝 Text content:', obj.text.length > 50 ? obj.text.substring(0, 50) + '...' : obj.text)
+        onText(obj.text)
+      } else if (obj.type === 'usage') {
+        streamUsage = addUsage(streamUsage, usageFromEvent(obj, payload.model))
+      } else if (obj.type) {
+        // Normalized tool / usage / stop events from the provider adapter
+        opts?.onStreamEvent?.(obj as StreamEvent)
       }
-    }
-
-    es.addEventListener('llm-error', (ev) => {
-      debug.log('❌ Received llm-error event:', (ev as MessageEvent).data)
-      try {
-        const obj = JSON.parse((ev as MessageEvent).data)
-        onError?.(obj)
-      } catch (e) {
-        onError?.({ code: 'bad_error_frame', raw: (ev as MessageEvent).data })
-      } finally {
-        safeDone()
+      if (obj.done) {
+        debug.log('✅ Stream marked as done')
+        // Server-loop modes hand back the ordered text / tool responses for the transcript
+        safeDone(obj.game_responses)
       }
-    })
-
-    es.addEventListener('debug', (ev) => {
-      debug.log('🐛 Received debug event:', (ev as MessageEvent).data)
-    })
-
-    es.addEventListener('retry-status', (ev) => {
-      try {
-        const retryData = JSON.parse((ev as MessageEvent).data)
-        debug.log('🔄 Received retry-status event:', retryData)
-
-        // Show retry message to user
-        const message = `\n\n_⏳ Claude is currently experiencing high demand. Retrying in ${retryData.delaySeconds}s (attempt ${retryData.attempt}/${retryData.maxRetries})..._\n\n`
-        onText(message)
-      } catch (e) {
-        debug.error('❌ Error parsing retry-status event:', e)
-      }
-    })
-
-    es.addEventListener('anthropic-tool-use', (ev) => {
-      try {
-        const eventData = JSON.parse((ev as MessageEvent).data)
-        debug.log('🔧 Received anthropic-tool-use event:', eventData)
+    }
 
-        // Forward tool use events to the callback if provided
-        if (opts?.onToolUseEvent) {
-          opts.onToolUseEvent(eventData)
+    // POST /api/chat/stream: payload and SSE on one request, resumable by frame id
+    const stream = openChatSse(payload, {
+      onFrame: (event, obj) => {
+        switch (event) {
+          case 'message':
+            handleMessage(obj)
+            break
+          case 'llm-error':
+            debug.log('❌ Received llm-error event:', obj)
+            onError?.(obj)
+            if (obj.fatal) safeDone()
+            break
+          case 'debug':
+            debug.log('🐛 Received debug event:', obj)
+            break
+          case 'thinking':
+            if (obj.text) opts?.onThinking?.(obj.text)
+            break
+          case 'retry-status': {
+            debug.log('🔄 Received retry-status event:', obj)
+            // Show retry message to user; previousModel means the server moved to a fallback model
+            const message = obj.previousModel
+              ? `\n\n_🔀 ${obj.previousModel} is still overloaded. Switching to ${obj.model}..._\n\n`
+              : `\n\n_⏳ ${obj.model || 'The model'} is currently experiencing high demand. Retrying in ${obj.delaySeconds}s (attempt ${obj.attempt}/${obj.maxRetries})..._\n\n`
+            onText(message)
+            break
+          }
+          case 'tool-thinking':
+            debug.log('🔧 Server is executing tools:', obj.toolCalls)
+            for (const toolCall of obj.toolCalls ?? []) {
+              opts?.onToolCall?.({ id: toolCall.id, name: toolCall.name, arguments: toolCall.arguments })
+            }
+            break
+          case 'tool-results':
+            debug.log('🔧 Received tool-results event:', obj)
+            for (const result of obj.results ?? []) {
+              opts?.onToolResult?.({ id: result.id, content: result.content, isError: !result.success, durationMs: result.durationMs })
+            }
+            break
         }
-      } catch (e) {
-        debug.error('❌ Error parsing anthropic-tool-use event:', e)
-      }
-    })
-
-    es.addEventListener('openai-tool-use', (ev) => {
-      try {
-        const eventData = JSON.parse((ev as MessageEvent).data)
-        debug.log('🔧 Received openai-tool-use event:', eventData.type)
-
-        // Forward tool use events to the callback if provided
-        if (opts?.onToolUseEvent) {
-          opts.onToolUseEvent(eventData)
+      },
+      onReconnecting: (reconnecting) => {
+        debug.log(reconnecting ? '🔌 Chat stream connection lost, reconnecting...' : '🔗 Chat stream reconnected')
+        opts?.onReconnecting?.(reconnecting)
+      },
+      onEnd: (error) => {
+        if (error) {
+          debug.error('❌ Chat stream error:', error)
+          onError?.(error)
         }
-      } catch (e) {
-        debug.error('❌ Error parsing openai-tool-use event:', e)
+        safeDone()
       }
-    })
+    }, { debug: opts?.debug })
 
-    es.onopen = () => {
-      debug.log('🔗 EventSource connection opened')
-    }
-
-    es.onerror = (ev) => {
-      debug.error('❌ EventSource error:', ev)
-      onError?.({ code: 'transport', message: 'EventSource connection error' })
+    // Close function that aborts the upstream call and signals done
+    const close = () => {
+      stream.cancel()
       safeDone()
     }
-
-    // Return a close function that also signals done
-    return () => safeDone()
+    // A cancelled turn closes the stream even before the caller has the close function
+    if (opts?.signal?.aborted) close()
+    else opts?.signal?.addEventListener('abort', close, { once: true })
+    return close
   }
 
   return {
@@ -1,100 +1,32 @@
 // composables/useClientToolCalling.ts - Client-side tool calling orchestration
 import { useToolCalling } from './useToolCalling'
-import { useMcpClient } from './useMcpClient'
 import type { ProviderMode } from './useChat'
 import { debug } from '../utils/debug'
 
 export function useClientToolCalling() {
   const {
     getAnthropicToolDefinitions,
-    getOpenAIToolDefinitions,
     executeMcpTools
   } = useToolCalling()
-  const { fetchCurrentGameState } = useMcpClient()
 
   // Check if a provider mode requires client-side tool calling
   function isClientMcpMode(providerMode: ProviderMode): boolean {
     return providerMode.endsWith('-client-mcp')
   }
 
-  // Get current active modes from game state
-  async function getCurrentModes(): Promise<string[]> {
-    try {
-      const gameState = await fetchCurrentGameState()
-      return gameState?.modes || []
-    } catch (error) {
-      // Keep as console.warn - this is a critical warning we always want visible
-      console.warn('Failed to fetch game modes, defaulting to empty:', error)
-      return []
-    }
-  }
-
-  // Filter tools based on active modes
-  // Tools are included if they have:
-  // - A tag matching "mode:any"
-  // - A tag matching "mode:X" where X is in the activeModes list
-  // - No mode tags at all (backwards compatible - includes all untagged tools)
-  function filterToolsByModes(tools: any[], activeModes: string[]): any[] {
-    // Log all tool tags for debugging
-    debug.log('🏷️ Tool tags debugging:')
-    tools.forEach((tool: any) => {
-      debug.log(`  - ${tool.name}: tags =`, tool.tags || 'undefined')
-    })
-    debug.log('🎯 Active modes for filtering:', activeModes)
-
-    if (activeModes.length === 0) {
-      // No active modes - include all tools
-      return tools
-    }
-
-    return tools.filter(tool => {
-      const tags = tool.tags || []
-
-      // If no tags, exclude the tool
-      if (tags.length === 0) {
-        return false
-      }
-
-      // Check if tool has mode:any tag
-      if (tags.includes('mode:any')) {
-        return true
-      }
-
-      // Check if tool has any mode:X tag where X is in activeModes
-      for (const mode of activeModes) {
-        if (tags.includes(`mode:${mode}`)) {
-          return true
-        }
-      }
-
-      // Tool doesn't match any active modes
-      return false
-    })
-  }
-
   // Get tools for a specific provider mode
+  // Tools are sent in the provider-neutral (Anthropic-style) shape; the server adapter converts them
   async function getToolsForProvider(providerMode: ProviderMode) {
     if (!isClientMcpMode(providerMode)) {
       return []
     }
 
-    const baseProvider = providerMode.split('-')[0]
-
-    debug.log('🔧 Getting tools for provider:', baseProvider)
-
-    if (baseProvider === 'anthropic') {
-      const tools = await getAnthropicToolDefinitions()
-      debug.log('🎯 Anthropic tools discovered:', tools.length)
-      debug.log('🔍 First 3 tools:', tools.slice(0, 3))
-      return tools
-    } else if (baseProvider === 'openai') {
-      const tools = await getOpenAIToolDefinitions()
-      debug.log('🎯 OpenAI tools discovered:', tools.length)
-      debug.log('🔍 First 3 tools:', tools.slice(0, 3))
-      return tools
-    }
+    debug.log('🔧 Getting tools for provider mode:', providerMode)
 
-    return []
+    const tools = await getAnthropicToolDefinitions()
+    debug.log('🎯 Tools discovered:', tools.length)
+    debug.log('🔍 First 3 tools:', tools.slice(0, 3))
+    return tools
   }
 
   // Enhance payload with tools for client MCP modes
@@ -114,42 +46,18 @@ export function useClientToolCalling() {
       return payload // No tools available
     }
 
-    // Get current active modes and filter tools
-    const activeModes = await getCurrentModes()
-    debug.log('🎮 Active game modes:', activeModes)
-
-    const filteredTools = filterToolsByModes(allTools, activeModes)
-    debug.log(`🔍 Filtered tools: ${filteredTools.length}/${allTools.length} tools match active modes`)
-
-    if (filteredTools.length === 0) {
-      // Keep as console.error - this is a critical error we always want visible
-      console.error('⚠️ WARNING: No tools match active modes! This should never happen. Check tool tags and mode configuration.')
-      console.error('Active modes:', activeModes)
-      console.error('Available tools:', allTools.map((t: any) => ({ name: t.name, tags: t.tags })))
-      // Return payload without tools - this is an error condition
-      return payload
-    }
-
-    debug.log('✅ Enhanced payload with', filteredTools.length, 'filtered tools')
-
-    // Strip tags before sending to LLM (they don't accept custom fields)
-    const toolsWithoutTags = filteredTools.map((tool: any) => {
-      const { tags, ...toolWithoutTags } = tool
-      return toolWithoutTags
-    })
-
+    // Mode tags stay on the tools: the server filters them by the game state's modes
+    // (server/utils/toolModes.ts) and strips the tags before calling the provider
     const enhancedPayload = {
       ...payload,
-      tools: toolsWithoutTags
+      tools: allTools
     }
 
-    // Log a sample of what we're sending
+    debug.log('✅ Enhanced payload with', allTools.length, 'tools')
     debug.log('📋 Enhanced payload summary:', {
       originalKeys: Object.keys(payload),
       enhancedKeys: Object.keys(enhancedPayload),
-      activeModes,
       totalTools: allTools.length,
-      filteredTools: filteredTools.length,
       toolsSample: enhancedPayload.tools?.slice(0, 2)
     })
 
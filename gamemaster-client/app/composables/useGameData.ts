@@ -1,5 +1,5 @@
-import { ref } from 'vue'
-import { useMcpClient } from './useMcpClient'
+import { ref, getCurrentScope, onScopeDispose } from 'vue'
+import { useMcpClient, CHARACTERS_RESOURCE, GAME_STATE_RESOURCE } from './useMcpClient'
 import { debug } from '../utils/debug'
 
 export type Character = {
@@ -51,7 +51,7 @@ export type Campaign = {
 }
 
 export function useGameData() {
-  const { getClient, fetchCurrentGameState, fetchCurrentCampaign } = useMcpClient()
+  const { getClient, fetchCurrentGameState, fetchCurrentCampaign, onResourceUpdated } = useMcpClient()
 
   // --- character panel ---
   const characters = ref<Character[]>([])
@@ -77,7 +77,7 @@ export function useGameData() {
   async function fetchCharacters(): Promise<void> {
     try {
       const c = await getClient()
-      const r = await c.readResource({ uri: 'resource://current_campaign/characters' })
+      const r = await c.readResource({ uri: CHARACTERS_RESOURCE })
       // SDK returns a ResourceContents envelope; normalize common shapes
       const contents = (r as any)?.contents ?? (r as any)?.content ?? r
       let characterData: any[] = []
@@ -177,6 +177,25 @@ export function useGameData() {
     ])
   }
 
+  // Keep the selected character's detail view in step with the refreshed list
+  function syncSelectedCharacter() {
+    const selected = selectedCharacter.value
+    if (!selected) return
+    selectedCharacter.value = characters.value.find(c => c.id === selected.id) ?? selected
+  }
+
+  // Tools that change HP or location mid-turn push resource updates; refetch just that panel
+  const stopListening = onResourceUpdated(async (uri) => {
+    debug.log(`🔔 MCP resource updated: ${uri}`)
+    if (uri === CHARACTERS_RESOURCE) {
+      await fetchCharacters()
+      syncSelectedCharacter()
+    } else if (uri === GAME_STATE_RESOURCE) {
+      await fetchGameState()
+    }
+  })
+  if (getCurrentScope()) onScopeDispose(stopListening)
+
   return {
     // State
     characters,
@@ -0,0 +1,44 @@
+// composables/useHealth.ts - Polls /api/health so the UI can say which part of the stack is broken
+import { ref } from 'vue'
+import { debug } from '../utils/debug'
+
+export type McpServerHealth = {
+  name: string
+  primary: boolean
+  ok: boolean
+  initializeMs?: number
+  toolsListMs?: number
+  toolCount?: number
+  error?: string
+}
+
+export type HealthReport = {
+  status: 'ok' | 'degraded' | 'down'
+  checkedAt?: string
+  problems?: string[]
+  mcp?: { mock: boolean; replay: boolean; servers: McpServerHealth[] }
+  providers?: Record<string, { keyConfigured: boolean; keyRequired?: boolean }>
+  tools?: { count: number | null; ageMs: number | null }
+  sessions?: { driver: string; stored: number; runs: { active: number; finished: number } }
+}
+
+// Shared across components; one poller is enough per tab
+const health = ref<HealthReport | null>(null)
+const unreachable = ref<string | null>(null) // set when the Nuxt server itself doesn't answer
+
+export function useHealth() {
+  async function checkHealth(): Promise<void> {
+    try {
+      // 503 still carries a report, so don't let $fetch turn it into an exception
+      const r = await fetch('/api/health', { credentials: 'same-origin' })
+      health.value = await r.json()
+      unreachable.value = null
+    } catch (e: any) {
+      debug.warn('Health check failed:', e)
+      health.value = null
+      unreachable.value = e?.message ?? String(e)
+    }
+  }
+
+  return { health, unreachable, checkHealth }
+}
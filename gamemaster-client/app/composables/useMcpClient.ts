@@ -1,8 +1,12 @@
 // composables/useMcpClient.ts
+import { ref, readonly } from 'vue'
 import { Client } from '@modelcontextprotocol/sdk/client/index.js'
 import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js'
-import { CreateMessageRequestSchema } from '@modelcontextprotocol/sdk/types.js'
+import {
+  CreateMessageRequestSchema, ResourceUpdatedNotificationSchema, ToolListChangedNotificationSchema
+} from '@modelcontextprotocol/sdk/types.js'
 import { useSampling } from './useSampling'
+import { debug } from '../utils/debug'
 
 type RecordInteractionArgs = {
   player_entry: string
@@ -25,65 +29,140 @@ type RecordInteractionWithToolsArgs = {
   session_number?: number | null
 }
 
-let client: Client | null = null
-let connecting: Promise<Client> | null = null
+export type McpServerInfo = { name: string; primary: boolean }
+
+// gamemaster-mcp is always there, served at /mcp; extra servers live at /mcp/<name>/
+const PRIMARY_SERVER: McpServerInfo = { name: 'gamemaster-mcp', primary: true }
+
+const clients = new Map<string, Client>()
+const connecting = new Map<string, Promise<Client>>()
+let serverList: Promise<McpServerInfo[]> | null = null
+
+// Whether this tab holds a live session with gamemaster-mcp through the /mcp proxy
+const connected = ref(false)
+
+// Game data resources the sidebar follows; tools update them mid-turn
+export const CHARACTERS_RESOURCE = 'resource://current_campaign/characters'
+export const GAME_STATE_RESOURCE = 'resource://current_campaign/game_state'
+
+// Tool lists per server. Servers advertising tools.listChanged keep theirs until they announce
+// notifications/tools/list_changed; the others are listed again after TOOL_LIST_TTL_MS.
+const TOOL_LIST_TTL_MS = 60_000
+const toolLists = new Map<string, { tools: any[]; expires: number }>()
+const resourceListeners = new Set<(uri: string) => void>()
+
+// Route server notifications to the tool cache and resource listeners
+async function watchServer(c: Client, server: string) {
+  c.setNotificationHandler(ToolListChangedNotificationSchema, async () => {
+    debug.log(`🔄 MCP tools changed on ${server}`)
+    toolLists.delete(server)
+  })
+
+  if (server !== PRIMARY_SERVER.name) return
+  c.setNotificationHandler(ResourceUpdatedNotificationSchema, async (notification) => {
+    for (const listener of resourceListeners) listener(notification.params.uri)
+  })
+
+  // Subscriptions are per session, so they are renewed on every (re)connect
+  if (!c.getServerCapabilities()?.resources?.subscribe) return
+  for (const uri of [CHARACTERS_RESOURCE, GAME_STATE_RESOURCE]) {
+    try {
+      await c.subscribeResource({ uri })
+    } catch (e) {
+      debug.warn(`Failed to subscribe to ${uri}:`, e)
+    }
+  }
+}
 
-async function connectClient(): Promise<Client> {
+// Configured MCP servers, fetched once per tab
+async function listMcpServers(): Promise<McpServerInfo[]> {
+  serverList ??= (async () => {
+    try {
+      const r = await fetch('/api/mcp/servers', { credentials: 'same-origin' })
+      if (!r.ok) throw new Error(`HTTP ${r.status}`)
+      const { servers } = await r.json()
+      return Array.isArray(servers) && servers.length ? servers : [PRIMARY_SERVER]
+    } catch (e) {
+      debug.error('Failed to list MCP servers, using gamemaster-mcp only:', e)
+      serverList = null // try again next time
+      return [PRIMARY_SERVER]
+    }
+  })()
+  return serverList
+}
+
+async function connectClient(server: string = PRIMARY_SERVER.name): Promise<Client> {
   // Reuse the same instance/tab-wide
-  if (client) return client
-  if (connecting) return connecting
-
-  connecting = (async () => {
-    // Point the client at your Nuxt proxy route (same-origin)
-    const base = new URL('/mcp', window.location.origin)
-    const transport = new StreamableHTTPClientTransport(base)
-
-    const c = new Client(
-      {
-        name: 'gamemaster-web',
-        version: '1.0.0'
-      },
-      {
-        capabilities: {
-          sampling: {} // Enable sampling capability
+  const existing = clients.get(server)
+  if (existing) return existing
+  const pending = connecting.get(server)
+  if (pending) return pending
+
+  const p = (async () => {
+    try {
+      // Point the client at your Nuxt proxy route (same-origin)
+      const path = server === PRIMARY_SERVER.name ? '/mcp' : `/mcp/${encodeURIComponent(server)}/`
+      const base = new URL(path, window.location.origin)
+      const transport = new StreamableHTTPClientTransport(base)
+
+      const c = new Client(
+        {
+          name: 'gamemaster-web',
+          version: '1.0.0'
+        },
+        {
+          capabilities: {
+            sampling: {} // Enable sampling capability
+          }
         }
+      )
+
+      await c.connect(transport) // ✅ SDK will initialize the session for you
+      await watchServer(c, server)
+      if (server === PRIMARY_SERVER.name) {
+        connected.value = true
+        c.onclose = () => { if (clients.get(server) === c) connected.value = false }
       }
-    )
-
-    await c.connect(transport) // ✅ SDK will initialize the session for you
-
-    // Set up sampling request handler
-    const { handleSamplingRequest } = useSampling()
-    c.setRequestHandler(CreateMessageRequestSchema, async (request) => {
-      try {
-        const result = await handleSamplingRequest(request.params)
-        return result
-      } catch (error) {
-        console.error('Error handling sampling request:', error)
-        throw error
-      }
-    })
 
-    client = c
-    connecting = null
-    return c
+      // Set up sampling request handler
+      const { handleSamplingRequest } = useSampling()
+      c.setRequestHandler(CreateMessageRequestSchema, async (request) => {
+        try {
+          const result = await handleSamplingRequest(request.params)
+          return result
+        } catch (error) {
+          console.error('Error handling sampling request:', error)
+          throw error
+        }
+      })
+
+      clients.set(server, c)
+      return c
+    } catch (e) {
+      if (server === PRIMARY_SERVER.name) connected.value = false
+      throw e
+    } finally {
+      connecting.delete(server)
+    }
   })()
+  connecting.set(server, p)
 
-  return connecting
+  return p
 }
 
 // Optional: handle one-time reconnect if session expires mid-flight
-async function withClient<T>(fn: (c: Client) => Promise<T>): Promise<T> {
-  const c = await connectClient()
+async function withClient<T>(fn: (c: Client) => Promise<T>, server: string = PRIMARY_SERVER.name): Promise<T> {
+  const c = await connectClient(server)
   try {
     return await fn(c)
   } catch (e: any) {
     const msg = String(e?.message || e)
     if (/session/i.test(msg) || /expired|not\s*found/i.test(msg)) {
       // tear down and reconnect once
-      try { await (client as any)?.disconnect?.() } catch {}
-      client = null
-      const c2 = await connectClient()
+      try { await clients.get(server)?.close() } catch {}
+      clients.delete(server)
+      toolLists.delete(server) // a new session may expose a different tool list
+      const c2 = await connectClient(server)
       return await fn(c2)
     }
     throw e
@@ -292,8 +371,33 @@ export function useMcpClient() {
   }
 
   // (Optional) expose the raw client if you need listTools, listResources, etc.
-  async function getClient(): Promise<Client> {
-    return connectClient()
+  // Defaults to gamemaster-mcp; pass a server name for the others
+  async function getClient(server?: string): Promise<Client> {
+    return connectClient(server)
+  }
+
+  // Run a call against one server with the same reconnect-once handling
+  async function withServerClient<T>(server: string, fn: (c: Client) => Promise<T>): Promise<T> {
+    return withClient(fn, server)
+  }
+
+  // A server's tools, listed again once it announces a change (or the TTL runs out)
+  async function listServerTools(server: string): Promise<any[]> {
+    const cached = toolLists.get(server)
+    if (cached && Date.now() < cached.expires) return cached.tools
+    const { tools, announcesChanges } = await withClient(async c => ({
+      tools: (await c.listTools()).tools || [],
+      announcesChanges: !!c.getServerCapabilities()?.tools?.listChanged
+    }), server)
+    toolLists.set(server, { tools, expires: announcesChanges ? Infinity : Date.now() + TOOL_LIST_TTL_MS })
+    return tools
+  }
+
+  // Called with the resource URI whenever gamemaster-mcp reports notifications/resources/updated;
+  // returns a function that removes the listener
+  function onResourceUpdated(listener: (uri: string) => void): () => void {
+    resourceListeners.add(listener)
+    return () => resourceListeners.delete(listener)
   }
 
   async function fetchCurrentCampaign(): Promise<any> {
@@ -321,7 +425,7 @@ export function useMcpClient() {
 
   async function fetchCurrentGameState(): Promise<any> {
     return withClient(async (c) => {
-      const r = await c.readResource({ uri: 'resource://current_campaign/game_state' })
+      const r = await c.readResource({ uri: GAME_STATE_RESOURCE })
       // SDK returns a ResourceContents envelope; normalize common shapes
       const contents = (r as any)?.contents ?? (r as any)?.content ?? r
 
@@ -371,5 +475,5 @@ export function useMcpClient() {
     })
   }
 
-  return { getClient, recordInteraction, recordInteractionWithTools, fetchCurrentTranscript, fetchTranscriptAsMessages, fetchCurrentCampaign, fetchCurrentGameState, fetchCurrentPrompt }
+  return { isConnected: readonly(connected), getClient, listMcpServers, withServerClient, listServerTools, onResourceUpdated, recordInteraction, recordInteractionWithTools, fetchCurrentTranscript, fetchTranscriptAsMessages, fetchCurrentCampaign, fetchCurrentGameState, fetchCurrentPrompt }
 }
@@ -1,6 +1,7 @@
 // composables/useSampling.ts - Handle MCP sampling requests
 import type { CreateMessageRequest, CreateMessageResult } from '@modelcontextprotocol/sdk/types.js'
 import { debug } from '../utils/debug'
+import { openChatSse } from '../utils/chatSse'
 
 export function useSampling() {
   /**
@@ -52,78 +53,41 @@ export function useSampling() {
       messageCount: payload.messages.length
     })
 
-    try {
-      // Create a session for this sampling request
-      const resp = await fetch('/api/chat/session', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(payload),
-        credentials: 'same-origin'
-      })
-
-      if (!resp.ok) {
-        const errorText = await resp.text()
-        debug.error('❌ Sampling session creation failed:', resp.status, errorText)
-        throw new Error(`Failed to create sampling session: ${errorText}`)
-      }
-
-      const { sid } = await resp.json()
-      debug.log('✅ Sampling session created:', sid)
+    return new Promise<CreateMessageResult>((resolve, reject) => {
+      let fullResponse = ''
+      let stopReason: string | undefined
+      let failed = false
 
-      // Stream the response
-      const origin = window.location.origin
-      const url = `${origin}/api/chat/stream?sid=${encodeURIComponent(sid)}`
-
-      return new Promise<CreateMessageResult>((resolve, reject) => {
-        const es = new EventSource(url)
-        let fullResponse = ''
-        let stopReason: string | undefined
-
-        es.onmessage = (ev) => {
-          try {
-            const obj = JSON.parse(ev.data)
-            if (typeof obj.text === 'string') {
-              fullResponse += obj.text
-            }
-            if (obj.done) {
-              es.close()
-              debug.log('✅ Sampling completed, response length:', fullResponse.length)
-              resolve({
-                role: 'assistant',
-                content: {
-                  type: 'text',
-                  text: fullResponse
-                },
-                model: model,
-                stopReason: stopReason || 'endTurn'
-              })
-            }
-          } catch (e) {
-            debug.log('⚠️ Ignoring non-JSON frame:', ev.data)
-          }
-        }
-
-        es.addEventListener('llm-error', (ev) => {
-          debug.error('❌ Sampling error:', (ev as MessageEvent).data)
-          es.close()
-          try {
-            const obj = JSON.parse((ev as MessageEvent).data)
+      openChatSse(payload, {
+        onFrame: (event, obj) => {
+          if (event === 'llm-error' && obj.fatal) {
+            debug.error('❌ Sampling error:', obj)
+            failed = true
             reject(new Error(obj.message || 'Sampling request failed'))
-          } catch (e) {
-            reject(new Error('Sampling request failed'))
+          } else if (event === 'message' && typeof obj.text === 'string') {
+            fullResponse += obj.text
           }
-        })
-
-        es.onerror = (ev) => {
-          debug.error('❌ Sampling EventSource error:', ev)
-          es.close()
-          reject(new Error('EventSource connection error during sampling'))
+        },
+        onEnd: (error) => {
+          if (failed) return
+          if (error) {
+            debug.error('❌ Sampling stream error:', error)
+            reject(new Error(error.message || 'Connection error during sampling'))
+            return
+          }
+          debug.log('✅ Sampling completed, response length:', fullResponse.length)
+          resolve({
+            role: 'assistant',
+            content: {
+              type: 'text',
+              text: fullResponse
+            },
+            model: model,
+            stopReason: stopReason || 'endTurn'
+          })
         }
       })
-    } catch (error) {
-      debug.error('❌ Error in sampling request:', error)
-      throw error
-    }
+    })
   }
 
   return {
@@ -0,0 +1,114 @@
+// composables/useToolApproval.ts - DM approval gate for state-mutating tool calls (client-MCP modes)
+import { ref } from 'vue'
+import type { ToolCall, ToolResult } from '#shared/utils/toolExecution'
+import { debug } from '../utils/debug'
+
+export type ToolApproval = {
+  id: string          // tool call id
+  toolName: string
+  argumentsJson: string
+}
+
+export type ApprovalDecision =
+  | { action: 'approve'; arguments?: string } // edited arguments replace the model's
+  | { action: 'reject'; reason?: string }
+
+// Tag that marks a tool as mutating game state (damage, inventory, quests, ...)
+const MUTATING_TAG = 'mutating'
+
+// Shared across the tab: the tool loop adds cards, the chat renders and resolves them
+const approvalEnabled = ref(false)
+const pendingApprovals = ref<ToolApproval[]>([])
+const resolvers = new Map<string, (decision: ApprovalDecision) => void>()
+
+// Tagged `mutating`, annotated destructive by the MCP server, or listed in MUTATING_TOOLS
+function isMutatingTool(name: string, tools: any[]): boolean {
+  const configured = String(useRuntimeConfig().public.mutatingTools || '')
+    .split(',').map(s => s.trim()).filter(Boolean)
+  if (configured.includes(name)) return true
+  const tool = tools.find(t => t?.name === name)
+  return !!tool && ((tool.tags || []).includes(MUTATING_TAG) || tool.annotations?.destructiveHint === true)
+}
+
+// Pretty-printed for the card; malformed arguments are shown as-is so the DM can fix them
+function formatArguments(args: string): string {
+  try {
+    return JSON.stringify(JSON.parse(args || '{}'), null, 2)
+  } catch {
+    return args
+  }
+}
+
+function requestApproval(call: ToolCall): Promise<ApprovalDecision> {
+  return new Promise((resolve) => {
+    resolvers.set(call.id, resolve)
+    pendingApprovals.value.push({
+      id: call.id,
+      toolName: call.function.name,
+      argumentsJson: formatArguments(call.function.arguments)
+    })
+  })
+}
+
+// The model gets a structured error it can narrate around instead of retrying
+function rejectionResult(call: ToolCall, reason?: string): ToolResult {
+  return {
+    tool_call_id: call.id,
+    isError: true,
+    content: JSON.stringify({
+      error: 'rejected_by_dm',
+      tool: call.function.name,
+      message: 'The DM rejected this tool call. It was not executed; continue without its effect and do not retry it unchanged.',
+      ...(reason ? { reason } : {})
+    })
+  }
+}
+
+export function useToolApproval() {
+  function resolveApproval(id: string, decision: ApprovalDecision) {
+    const resolve = resolvers.get(id)
+    if (!resolve) return
+    resolvers.delete(id)
+    pendingApprovals.value = pendingApprovals.value.filter(a => a.id !== id)
+    debug.log(`🛡️ Tool call ${id} ${decision.action === 'approve' ? 'approved' : 'rejected'}`)
+    resolve(decision)
+  }
+
+  // New chat / cancelled turn: release the waiting tool loop
+  function cancelPendingApprovals() {
+    for (const { id } of [...pendingApprovals.value]) {
+      resolveApproval(id, { action: 'reject', reason: 'The turn was cancelled' })
+    }
+  }
+
+  // Split a tool iteration into calls to run (arguments possibly edited) and rejections.
+  // Calls are reviewed one card at a time, in the order the model made them.
+  async function reviewToolCalls(toolCalls: ToolCall[], tools: any[]): Promise<{ approved: ToolCall[]; rejected: ToolResult[] }> {
+    const approved: ToolCall[] = []
+    const rejected: ToolResult[] = []
+
+    for (const call of toolCalls) {
+      if (!approvalEnabled.value || !isMutatingTool(call.function.name, tools)) {
+        approved.push(call)
+        continue
+      }
+      const decision = await requestApproval(call)
+      if (decision.action === 'reject') {
+        rejected.push(rejectionResult(call, decision.reason))
+      } else {
+        if (decision.arguments !== undefined) call.function.arguments = decision.arguments
+        approved.push(call)
+      }
+    }
+
+    return { approved, rejected }
+  }
+
+  return {
+    approvalEnabled,
+    pendingApprovals,
+    resolveApproval,
+    cancelPendingApprovals,
+    reviewToolCalls
+  }
+}
@@ -1,20 +1,11 @@
 // composables/useToolCalling.ts
-import { useMcpClient } from './useMcpClient'
+import { useMcpClient, type McpServerInfo } from './useMcpClient'
 import { debug } from '../utils/debug'
-
-export interface ToolCall {
-  id: string
-  type: 'function'
-  function: {
-    name: string
-    arguments: string
-  }
-}
-
-export interface ToolResult {
-  tool_call_id: string
-  content: string
-}
+import { validateToolArguments } from '../utils/toolArguments'
+import {
+  parseToolExecutionOptions, prefixToolName, resolveToolOwner, runToolCalls, SEQUENTIAL_TOOL_TAG,
+  type ToolCall, type ToolResult, type ToolTransport
+} from '#shared/utils/toolExecution'
 
 export interface AnthropicTool {
   name: string
@@ -25,6 +16,7 @@ export interface AnthropicTool {
     required?: string[]
   }
   tags?: string[]
+  annotations?: Record<string, any>
 }
 
 export interface OpenAITool {
@@ -40,15 +32,24 @@ export interface OpenAITool {
 }
 
 export function useToolCalling() {
-  const { getClient } = useMcpClient()
+  const { listMcpServers, listServerTools, withServerClient } = useMcpClient()
 
-  // Discover available MCP tools
+  // Discover available MCP tools across all configured servers
   async function getMcpTools() {
     try {
       console.info('Getting MCP tools')
-      const client = await getClient()
-      const toolList = await client.listTools()
-      const tools = toolList.tools || []
+      const servers = await listMcpServers()
+      const tools: any[] = []
+      // One unreachable server shouldn't hide the others' tools
+      for (const server of servers) {
+        try {
+          for (const tool of await listServerTools(server.name)) {
+            tools.push({ ...tool, name: prefixToolName(server, tool.name) })
+          }
+        } catch (error) {
+          debug.error(`Failed to fetch MCP tools from ${server.name}:`, error)
+        }
+      }
 
       // Debug: Log raw MCP tools to see if tags are present
       debug.log('🔍 Raw MCP tools from server:')
@@ -77,7 +78,9 @@ export function useToolCalling() {
         properties: mcpTool.inputSchema?.properties || {},
         required: mcpTool.inputSchema?.required || []
       },
-      tags
+      tags,
+      // destructiveHint marks tools that need DM approval (useToolApproval); the server drops it
+      annotations: mcpTool.annotations
     }
     debug.log(`✅ Converted ${mcpTool.name}: converted.tags =`, converted.tags)
     return converted
@@ -113,60 +116,61 @@ export function useToolCalling() {
     return mcpTools.map(convertMcpToOpenAITool)
   }
 
-  // Execute tool calls against MCP server
-  async function executeMcpTools(toolCalls: ToolCall[]): Promise<ToolResult[]> {
-    const client = await getClient()
-    const results: ToolResult[] = []
-
-    for (const toolCall of toolCalls) {
+  // MCP tool definitions by model-facing (prefixed) name, from the cached tool lists
+  async function getToolIndex(servers: McpServerInfo[]): Promise<Map<string, any>> {
+    const index = new Map<string, any>()
+    for (const server of servers) {
       try {
-        let args: Record<string, any>
-        try {
-          args = JSON.parse(toolCall.function.arguments)
-        } catch (parseError) {
-          results.push({
-            tool_call_id: toolCall.id,
-            content: `Error parsing tool arguments: ${parseError instanceof Error ? parseError.message : String(parseError)}`
-          })
-          continue
+        for (const tool of await listServerTools(server.name)) {
+          index.set(prefixToolName(server, tool.name), tool)
         }
+      } catch {} // unknown tools: their calls run concurrently and unvalidated
+    }
+    return index
+  }
 
-        const result = await client.callTool({
-          name: toolCall.function.name,
-          arguments: args
-        })
-
-        // Convert MCP result to string format
-        let content: string
-        if (typeof result === 'string') {
-          content = result
-        } else if (result && typeof result === 'object') {
-          // Handle MCP SDK result format
-          const resultContent = (result as any)?.content ?? result
-          if (Array.isArray(resultContent) && resultContent[0]?.text) {
-            content = resultContent[0].text
-          } else if (typeof resultContent?.text === 'string') {
-            content = resultContent.text
-          } else {
-            content = JSON.stringify(result, null, 2)
-          }
-        } else {
-          content = String(result)
-        }
+  // Execute tool calls against the MCP servers that own them, through the browser's MCP sessions.
+  // Scheduling (TOOL_CONCURRENCY, `sequential` tools) and timeouts are shared with the server loop.
+  async function executeMcpTools(toolCalls: ToolCall[], signal?: AbortSignal): Promise<ToolResult[]> {
+    const servers = await listMcpServers()
+    const toolIndex = await getToolIndex(servers)
+    const sequential = new Set<string>()
+    for (const [name, tool] of toolIndex) {
+      if ((tool._meta?._fastmcp?.tags || tool.tags || []).includes(SEQUENTIAL_TOOL_TAG)) sequential.add(name)
+    }
 
-        results.push({
-          tool_call_id: toolCall.id,
-          content
-        })
-      } catch (error) {
-        results.push({
+    const transport: ToolTransport = {
+      // Caught here, the model gets every violation at once instead of the server's first complaint
+      check: (toolCall, args) => {
+        const violations = validateToolArguments(args, toolIndex.get(toolCall.function.name)?.inputSchema)
+        if (!violations.length) {
+          debug.log(`🧪 Arguments valid for ${toolCall.function.name}`)
+          return undefined
+        }
+        debug.warn(`🧪 Invalid arguments for ${toolCall.function.name}:`, violations)
+        return {
           tool_call_id: toolCall.id,
-          content: `Error executing tool ${toolCall.function.name}: ${error instanceof Error ? error.message : String(error)}`
-        })
-      }
+          isError: true,
+          content: [
+            `Error: invalid arguments for tool ${toolCall.function.name}; it was not executed.`,
+            ...violations.map(v => `- ${v}`),
+            'Fix these arguments to match the tool\'s input schema and call it again.'
+          ].join('\n')
+        }
+      },
+      // Route to the owning server with its unprefixed tool name
+      call: (toolCall, args, timeout, callSignal) => {
+        const { server, tool } = resolveToolOwner(servers, toolCall.function.name)
+        return withServerClient(server.name, c => c.callTool({
+          name: tool,
+          arguments: args
+        }, undefined, { signal: callSignal, timeout }))
+      },
+      onFailure: (toolCall, reason) => debug.warn(`⏱️ Tool ${toolCall.function.name} failed: ${reason}`)
     }
 
-    return results
+    const options = parseToolExecutionOptions((useRuntimeConfig().public as any).toolExecution)
+    return runToolCalls(toolCalls, sequential, transport, options, signal)
   }
 
   return {
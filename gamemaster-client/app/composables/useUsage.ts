@@ -0,0 +1,109 @@
+// composables/useUsage.ts - Token usage and cost accounting per turn, session and campaign
+import { ref } from 'vue'
+import { computeCost } from '../utils/pricing'
+import { debug } from '../utils/debug'
+
+export type UsageTotals = {
+  inputTokens: number
+  outputTokens: number
+  cacheReadTokens: number   // prompt-cache hits (not included in inputTokens)
+  cacheWriteTokens: number  // tokens written to the prompt cache
+  cost: number    // USD
+  calls: number   // upstream LLM calls
+}
+
+export type UsageLedgerEntry = UsageTotals & {
+  timestamp: string
+  model: string
+}
+
+const LEDGER_KEY_PREFIX = 'gm-usage-ledger:'
+const MAX_LEDGER_ENTRIES = 1000
+
+export function emptyUsage(): UsageTotals {
+  return { inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0, cost: 0, calls: 0 }
+}
+
+export function addUsage(a: UsageTotals, b: UsageTotals): UsageTotals {
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    // Ledger entries written before cache accounting have no cache fields
+    cacheReadTokens: (a.cacheReadTokens ?? 0) + (b.cacheReadTokens ?? 0),
+    cacheWriteTokens: (a.cacheWriteTokens ?? 0) + (b.cacheWriteTokens ?? 0),
+    cost: a.cost + b.cost,
+    calls: a.calls + b.calls
+  }
+}
+
+// Convert one server usage event (one upstream call) into priced totals
+export function usageFromEvent(evt: { inputTokens?: number; outputTokens?: number; cacheReadTokens?: number; cacheWriteTokens?: number; model?: string }, fallbackModel?: string): UsageTotals {
+  const usage = {
+    inputTokens: evt.inputTokens ?? 0,
+    outputTokens: evt.outputTokens ?? 0,
+    cacheReadTokens: evt.cacheReadTokens ?? 0,
+    cacheWriteTokens: evt.cacheWriteTokens ?? 0
+  }
+  return { ...usage, cost: computeCost(evt.model || fallbackModel, usage), calls: 1 }
+}
+
+// Shared across every caller so the chat UI and the stream see the same numbers
+const lastTurn = ref<UsageTotals | null>(null)
+const session = ref<UsageTotals>(emptyUsage())
+const campaign = ref<UsageTotals>(emptyUsage())
+const campaignName = ref<string | null>(null)
+
+function ledgerKey(name: string) {
+  return `${LEDGER_KEY_PREFIX}${name}`
+}
+
+function readLedger(name: string): UsageLedgerEntry[] {
+  try {
+    const raw = localStorage.getItem(ledgerKey(name))
+    return raw ? JSON.parse(raw) : []
+  } catch { return [] }
+}
+
+function writeLedger(name: string, entries: UsageLedgerEntry[]) {
+  try { localStorage.setItem(ledgerKey(name), JSON.stringify(entries.slice(-MAX_LEDGER_ENTRIES))) } catch {}
+}
+
+export function useUsage() {
+  // Switch the campaign ledger shown in the UI (called when campaign data loads)
+  function setCampaign(name: string | null) {
+    campaignName.value = name
+    campaign.value = name
+      ? readLedger(name).reduce<UsageTotals>((total, entry) => addUsage(total, entry), emptyUsage())
+      : emptyUsage()
+  }
+
+  // Record the aggregated usage of one GM turn
+  function recordTurn(turn: UsageTotals, model: string) {
+    lastTurn.value = turn
+    session.value = addUsage(session.value, turn)
+    debug.log('💰 Turn usage:', turn, 'session:', session.value)
+
+    if (campaignName.value) {
+      const entries = readLedger(campaignName.value)
+      entries.push({ ...turn, model, timestamp: new Date().toISOString() })
+      writeLedger(campaignName.value, entries)
+      campaign.value = addUsage(campaign.value, turn)
+    }
+  }
+
+  function resetSession() {
+    lastTurn.value = null
+    session.value = emptyUsage()
+  }
+
+  return {
+    lastTurn,
+    session,
+    campaign,
+    campaignName,
+    setCampaign,
+    recordTurn,
+    resetSession,
+    readLedger
+  }
+}
@@ -0,0 +1,12 @@
+// middleware/auth.global.ts - Send signed-out users to /login when the server has auth enabled
+type AuthState = { authenticated: boolean; user: string | null; authEnabled: boolean }
+
+export default defineNuxtRouteMiddleware(async (to) => {
+  if (to.path === '/login') return
+
+  // useRequestFetch forwards the browser's cookie when this runs during SSR
+  const session = await useRequestFetch()<AuthState>('/api/auth/session').catch(() => null)
+  if (session?.authEnabled && !session.authenticated) {
+    return navigateTo({ path: '/login', query: { redirect: to.fullPath } })
+  }
+})
@@ -0,0 +1,168 @@
+// utils/chatSse.ts - fetch-based client for POST /api/chat/stream
+import { debug } from './debug'
+
+export type SseFrame = { id?: string; event: string; data: string }
+
+export type ChatSseHandlers = {
+  // One parsed frame; `event` is 'message' for plain data frames
+  onFrame: (event: string, data: any) => void
+  // The connection dropped and is resuming from the last frame id (true), or is back (false)
+  onReconnecting?: (reconnecting: boolean) => void
+  // The stream is over: after a terminal frame, or with an error once resuming gave up
+  onEnd: (error?: { code: string; message: string; [key: string]: any }) => void
+}
+
+// How long a dropped stream may keep reconnecting before the turn is reported as failed
+const RECONNECT_TIMEOUT_MS = 30_000
+const RECONNECT_DELAY_MS = 1000
+
+// Parse an SSE body into frames
+export async function readSseFrames(body: ReadableStream<Uint8Array>, onFrame: (frame: SseFrame) => void) {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buf = ''
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      buf += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n')
+
+      for (;;) {
+        const i = buf.indexOf('\n\n')
+        if (i === -1) break
+        const raw = buf.slice(0, i)
+        buf = buf.slice(i + 2)
+
+        const frame: SseFrame = { event: 'message', data: '' }
+        const dataLines: string[] = []
+        for (const line of raw.split('\n')) {
+          if (line.startsWith('data:')) dataLines.push(line.slice(5).trimStart())
+          else if (line.startsWith('event:')) frame.event = line.slice(6).trim()
+          else if (line.startsWith('id:')) frame.id = line.slice(3).trim()
+        }
+        if (!dataLines.length) continue
+        frame.data = dataLines.join('\n')
+        onFrame(frame)
+      }
+    }
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+// Stream a chat turn. Frames carry ids, so a dropped connection resumes through
+// GET /api/chat/stream with Last-Event-ID while the server keeps the upstream call going.
+export function openChatSse(payload: any, handlers: ChatSseHandlers, opts?: { debug?: boolean }) {
+  const controller = new AbortController()
+  let sid: string | null = null
+  let lastEventId = ''
+  let ended = false
+
+  const end = (error?: Parameters<ChatSseHandlers['onEnd']>[0]) => {
+    if (ended) return
+    ended = true
+    controller.abort()
+    handlers.onEnd(error)
+  }
+
+  const onFrame = (frame: SseFrame) => {
+    if (frame.id) lastEventId = frame.id
+    let data: any
+    try {
+      data = JSON.parse(frame.data)
+    } catch {
+      debug.log('⚠️ Ignoring non-JSON frame:', frame.data)
+      return
+    }
+    handlers.onFrame(frame.event, data)
+    // The final frame and fatal errors end the turn; the server closes right after.
+    // Non-fatal errors are followed by more frames.
+    if (data?.done || (frame.event === 'llm-error' && data?.fatal)) end()
+  }
+
+  // Reconnect until the run answers again or the timeout passes
+  async function resume(): Promise<Response | null> {
+    const started = Date.now()
+    handlers.onReconnecting?.(true)
+    while (!ended && Date.now() - started < RECONNECT_TIMEOUT_MS) {
+      await new Promise(resolve => setTimeout(resolve, RECONNECT_DELAY_MS))
+      try {
+        const resp = await fetch(`/api/chat/stream?sid=${encodeURIComponent(sid!)}`, {
+          headers: lastEventId ? { 'Last-Event-ID': lastEventId } : {},
+          credentials: 'same-origin',
+          signal: controller.signal
+        })
+        if (resp.ok && resp.body) {
+          debug.log('🔗 Chat stream resumed after event', lastEventId)
+          handlers.onReconnecting?.(false)
+          return resp
+        }
+      } catch (e) {
+        if (controller.signal.aborted) return null
+        debug.log('🔌 Chat stream still unreachable, retrying...')
+      }
+    }
+    handlers.onReconnecting?.(false)
+    return null
+  }
+
+  ;(async () => {
+    let resp: Response
+    try {
+      resp = await fetch(`/api/chat/stream${opts?.debug ? '?debug=1' : ''}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+        credentials: 'same-origin',
+        signal: controller.signal
+      })
+    } catch (e: any) {
+      if (!controller.signal.aborted) end({ code: 'transport', message: String(e?.message || e) })
+      return
+    }
+
+    if (!resp.ok || !resp.body) {
+      const text = await resp.text().catch(() => '')
+      debug.error('❌ Chat stream request failed:', resp.status, text)
+      end({ code: 'http_error', status: resp.status, message: text || resp.statusText })
+      return
+    }
+    sid = resp.headers.get('X-Chat-Session')
+
+    for (;;) {
+      try {
+        await readSseFrames(resp.body!, onFrame)
+      } catch (e) {
+        if (controller.signal.aborted) return
+        debug.error('❌ Chat stream connection lost:', e)
+      }
+      if (ended) return
+
+      // The body ended or broke before a terminal frame
+      if (!sid) {
+        end({ code: 'transport', message: 'Chat stream closed unexpectedly' })
+        return
+      }
+      const resumed = await resume()
+      if (!resumed) {
+        if (!ended) end({ code: 'transport', message: 'Lost connection to the chat stream' })
+        return
+      }
+      resp = resumed
+    }
+  })()
+
+  return {
+    // Stop reading and tell the server to abort the upstream call now
+    cancel() {
+      if (ended) return
+      if (sid) {
+        fetch(`/api/chat/stream?sid=${encodeURIComponent(sid)}`, { method: 'DELETE', credentials: 'same-origin', keepalive: true })
+          .catch(() => {})
+      }
+      ended = true
+      controller.abort()
+    }
+  }
+}
@@ -0,0 +1,53 @@
+// utils/pricing.ts - Per-model token prices used for cost accounting
+import type { TokenUsage } from '../../types/chatStream'
+
+type ModelPrice = {
+  input: number   // USD per million input tokens
+  output: number  // USD per million output tokens
+  cacheRead?: number   // USD per million cached input tokens read
+  cacheWrite?: number  // USD per million input tokens written to the cache
+}
+
+// Keyed by model family; dated snapshots (claude-sonnet-4-5-20250929) match by prefix.
+// Longer keys are checked first so 'gpt-5-mini' wins over 'gpt-5' and 'claude-opus-4-5' over 'claude-opus-4'.
+// Anthropic cache writes (5 minute TTL) cost 1.25x input, reads 0.1x; OpenAI only bills reads.
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  'claude-opus-4-5': { input: 5, output: 25, cacheRead: 0.5, cacheWrite: 6.25 },
+  'claude-opus-4': { input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 },  // also 4.1
+  'claude-sonnet-4': { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  'claude-haiku-4-5': { input: 1, output: 5, cacheRead: 0.1, cacheWrite: 1.25 },
+  'claude-3-5-haiku': { input: 0.8, output: 4, cacheRead: 0.08, cacheWrite: 1 },
+  'gpt-5': { input: 1.25, output: 10, cacheRead: 0.125 },
+  'gpt-5-mini': { input: 0.25, output: 2, cacheRead: 0.025 },
+  'gpt-5-nano': { input: 0.05, output: 0.4, cacheRead: 0.005 },
+  'gpt-4.1': { input: 2, output: 8, cacheRead: 0.5 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6, cacheRead: 0.1 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4, cacheRead: 0.025 },
+  'gpt-4o': { input: 2.5, output: 10, cacheRead: 1.25 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6, cacheRead: 0.075 }
+}
+
+const PRICE_KEYS = Object.keys(MODEL_PRICES).sort((a, b) => b.length - a.length)
+
+// Local / unknown models cost nothing
+export function getModelPrice(model?: string): ModelPrice | null {
+  if (!model) return null
+  const key = PRICE_KEYS.find(k => model.startsWith(k))
+  return key ? MODEL_PRICES[key] : null
+}
+
+export function computeCost(model: string | undefined, usage: TokenUsage): number {
+  const price = getModelPrice(model)
+  if (!price) return 0
+  const cacheRead = (usage.cacheReadTokens ?? 0) * (price.cacheRead ?? price.input)
+  const cacheWrite = (usage.cacheWriteTokens ?? 0) * (price.cacheWrite ?? price.input)
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output + cacheRead + cacheWrite) / 1_000_000
+}
+
+export function formatCost(cost: number): string {
+  return cost < 0.01 && cost > 0 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`
+}
+
+export function formatTokens(tokens: number): string {
+  return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens)
+}
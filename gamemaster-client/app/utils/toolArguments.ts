@@ -0,0 +1,98 @@
+// utils/toolArguments.ts - Check model-made tool arguments against the tool's MCP inputSchema
+
+// The JSON Schema subset FastMCP (pydantic) emits for tool parameters: type (or a list of
+// types), required, enum, const, nested properties / items, anyOf / oneOf (Optional[...] is
+// anyOf [X, null]) and local $refs into $defs. Anything else is accepted as-is.
+type Schema = Record<string, any>
+
+function describeValue(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number'
+  return typeof value
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'string': return typeof value === 'string'
+    case 'integer': return typeof value === 'number' && Number.isInteger(value)
+    case 'number': return typeof value === 'number' && Number.isFinite(value)
+    case 'boolean': return typeof value === 'boolean'
+    case 'array': return Array.isArray(value)
+    case 'object': return !!value && typeof value === 'object' && !Array.isArray(value)
+    case 'null': return value === null
+    default: return true // unknown type keyword: nothing to check
+  }
+}
+
+// '#/$defs/Item' (or the older '#/definitions/Item') within the tool's own schema
+function resolveRef(ref: string, root: Schema): Schema | undefined {
+  const match = /^#\/(\$defs|definitions)\/(.+)$/.exec(ref)
+  return match ? root[match[1]]?.[match[2]] : undefined
+}
+
+function validate(value: unknown, schema: Schema, path: string, root: Schema, violations: string[]) {
+  if (!schema || typeof schema !== 'object') return
+  if (schema.$ref) {
+    const target = resolveRef(schema.$ref, root)
+    if (target) validate(value, target, path, root, violations)
+    return
+  }
+
+  const at = path || 'arguments'
+
+  // A value must satisfy one branch; report the branch types rather than every nested miss
+  const branches: Schema[] | undefined = schema.anyOf || schema.oneOf
+  if (Array.isArray(branches) && branches.length) {
+    const ok = branches.some((branch) => {
+      const branchViolations: string[] = []
+      validate(value, branch, path, root, branchViolations)
+      return branchViolations.length === 0
+    })
+    if (!ok) {
+      const types = branches.map(b => (b.$ref ? resolveRef(b.$ref, root) : b)?.type ?? 'schema').join(' | ')
+      violations.push(`${at}: expected ${types}, got ${describeValue(value)}`)
+    }
+    return
+  }
+
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type]
+    if (!types.some(t => matchesType(value, t))) {
+      violations.push(`${at}: expected ${types.join(' | ')}, got ${describeValue(value)}`)
+      return
+    }
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some((option: unknown) => option === value)) {
+    violations.push(`${at}: must be one of ${schema.enum.map((o: unknown) => JSON.stringify(o)).join(', ')}, got ${JSON.stringify(value)}`)
+  }
+  if ('const' in schema && schema.const !== value) {
+    violations.push(`${at}: must be ${JSON.stringify(schema.const)}, got ${JSON.stringify(value)}`)
+  }
+
+  if (Array.isArray(value) && schema.items && typeof schema.items === 'object') {
+    value.forEach((item, i) => validate(item, schema.items, `${at}[${i}]`, root, violations))
+  }
+
+  if (matchesType(value, 'object')) {
+    const obj = value as Record<string, unknown>
+    for (const name of schema.required || []) {
+      if (obj[name] === undefined) violations.push(`${path ? `${path}.` : ''}${name}: required property is missing`)
+    }
+    const properties: Record<string, Schema> = schema.properties || {}
+    for (const [name, propValue] of Object.entries(obj)) {
+      const propPath = path ? `${path}.${name}` : name
+      if (properties[name]) validate(propValue, properties[name], propPath, root, violations)
+      else if (schema.additionalProperties === false) violations.push(`${propPath}: unknown property`)
+    }
+  }
+}
+
+// Violations in a form the model can act on, e.g. "hp: expected integer, got string"; empty when valid
+export function validateToolArguments(args: unknown, inputSchema: Schema | undefined): string[] {
+  if (!inputSchema) return []
+  const violations: string[] = []
+  validate(args, { type: 'object', ...inputSchema }, '', inputSchema, violations)
+  return violations
+}
@@ -1,21 +1,85 @@
 // https://nuxt.com/docs/api/configuration/nuxt-config
 
+// Retry policy from <PREFIX>_MAX_RETRIES, <PREFIX>_RETRY_* and <PREFIX>_FALLBACK_MODELS.
+// Every key is declared so NUXT_<PROVIDER>_RETRY_* can override it at runtime;
+// unset fields use DEFAULT_RETRY_POLICY (server/utils/providers/retry.ts)
+function retryConfig(prefix: string) {
+  return {
+    maxRetries: process.env[`${prefix}_MAX_RETRIES`] || '',
+    baseDelayMs: process.env[`${prefix}_RETRY_BASE_DELAY_MS`] || '',
+    maxDelayMs: process.env[`${prefix}_RETRY_MAX_DELAY_MS`] || '',
+    jitter: process.env[`${prefix}_RETRY_JITTER`] || '',                  // 0..1
+    retryStatuses: process.env[`${prefix}_RETRY_STATUSES`] || '',         // comma-separated, e.g. 429,529
+    retryNetworkErrors: process.env[`${prefix}_RETRY_NETWORK_ERRORS`] || '', // 'false' to fail fast when the server is down
+    fallbackModels: process.env[`${prefix}_FALLBACK_MODELS`] || ''        // comma-separated, e.g. claude-haiku-4-5
+  }
+}
+
 export default defineNuxtConfig({
   runtimeConfig: {
     openai: {
       apiKey: process.env.OPENAI_API_KEY || 's',
       baseURL: process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+      retry: retryConfig('OPENAI')
     },
     anthropic: {
       apiKey: process.env.ANTHROPIC_API_KEY || '',
       baseURL: process.env.ANTHROPIC_BASE_URL || 'https://api.anthropic.com/v1',
       version: process.env.ANTHROPIC_VERSION || '2023-06-01', // or current
+      promptCaching: process.env.ANTHROPIC_PROMPT_CACHING !== 'false', // cache system prompt, tools and transcript prefix
+      retry: retryConfig('ANTHROPIC')
+    },
+    // Local OpenAI-compatible server (llama.cpp, Ollama, vLLM) speaking /chat/completions
+    openaicompat: {
+      apiKey: process.env.OPENAICOMPAT_API_KEY || '',  // most local servers need none
+      baseURL: process.env.OPENAICOMPAT_BASE_URL || 'http://localhost:11434/v1',
+      model: process.env.OPENAICOMPAT_MODEL || '',     // overrides the client's model name when set
+      retry: retryConfig('OPENAICOMPAT')
     },
     mcp: {
-      url: process.env.MCP_URL || ''  // e.g., https://your-public-host
+      url: process.env.MCP_URL || '',  // gamemaster-mcp upstream behind the /mcp proxy
+      // This app's public base URL; server-MCP providers call its /mcp proxy, never MCP_URL directly
+      publicUrl: process.env.MCP_PUBLIC_URL || '',
+      // Extra servers proxied at /mcp/<name>/: "rules=https://srd.example,music=https://ambience.example" or JSON
+      servers: process.env.MCP_SERVERS || '',
+      recordFile: process.env.MCP_RECORD_FILE || '', // append every proxied JSON-RPC exchange as JSONL
+      replayFile: process.env.MCP_REPLAY_FILE || '', // answer /mcp from a recording instead of the upstream
+      mock: process.env.MCP_MOCK === 'true',           // serve gamemaster-mcp in-process from a fixture campaign
+      mockFixture: process.env.MCP_MOCK_FIXTURE || ''  // defaults to server/mock/campaign.json
+    },
+    // Access control for /mcp and /api/chat; disabled while no password or user tokens are set
+    auth: {
+      password: process.env.AUTH_PASSWORD || '',        // shared secret for the browser login
+      userTokens: process.env.AUTH_USER_TOKENS || '',   // per-user logins: "alice:token1,bob:token2"
+      sessionSecret: process.env.AUTH_SESSION_SECRET || '', // cookie signing key (defaults to the password)
+      sessionMaxAgeSeconds: Number(process.env.AUTH_SESSION_MAX_AGE_SECONDS) || 7 * 24 * 3600,
+      mcpToken: process.env.MCP_AUTH_TOKEN || ''        // bearer token Anthropic uses to call /mcp
+    },
+    // Payloads held between POST /api/chat/session and GET /api/chat/stream
+    chatSessions: {
+      driver: process.env.CHAT_SESSION_DRIVER || 'memory', // 'memory' | 'file'
+      dir: process.env.CHAT_SESSION_DIR || '.data/chat-sessions',
+      ttlSeconds: Number(process.env.CHAT_SESSION_TTL_SECONDS) || 120,
+      maxPayloadBytes: Number(process.env.CHAT_SESSION_MAX_PAYLOAD_BYTES) || 5 * 1024 * 1024,
+      maxEntries: Number(process.env.CHAT_SESSION_MAX_ENTRIES) || 500
+    },
+    // Structured server logs: JSON lines in `file` (rotated at maxBytes, keeping maxFiles) plus the console
+    logging: {
+      level: process.env.LOG_LEVEL || (process.env.DEBUG === 'true' ? 'debug' : 'info'), // debug | info | warn | error
+      file: process.env.LOG_FILE ?? 'logs/server.log', // '' for console only
+      maxBytes: Number(process.env.LOG_MAX_BYTES) || 10 * 1024 * 1024,
+      maxFiles: Number(process.env.LOG_MAX_FILES ?? 5)
     },
     public: {
-      debug: process.env.DEBUG === 'true'
+      debug: process.env.DEBUG === 'true',
+      // Tools that need DM approval in approval mode, besides those tagged `mutating`
+      mutatingTools: process.env.MUTATING_TOOLS || '',
+      // Tool calls from one model response, in both the client and server tool loops
+      toolExecution: {
+        concurrency: Number(process.env.TOOL_CONCURRENCY) || 4,  // 1 runs every call in order
+        timeoutMs: Number(process.env.TOOL_TIMEOUT_MS) || 30000,
+        timeouts: process.env.TOOL_TIMEOUTS || ''                // per-tool overrides: "render_hex_map=60000"
+      }
     }
   },
   routeRules: {
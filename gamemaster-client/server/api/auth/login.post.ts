@@ -0,0 +1,17 @@
+// server/api/auth/login.post.ts
+import { defineEventHandler, readBody, setResponseStatus } from 'h3'
+import { findUserForToken, isAuthEnabled, setSessionCookie } from '../../utils/auth'
+
+// Exchange the shared password (or a per-user token) for a signed session cookie
+export default defineEventHandler(async (event) => {
+  if (!isAuthEnabled()) return { authenticated: true, user: null, authEnabled: false }
+
+  const body = await readBody<{ token?: string }>(event)
+  const user = findUserForToken(String(body?.token || ''))
+  if (!user) {
+    setResponseStatus(event, 401); return { error: 'Invalid password or token' }
+  }
+
+  await setSessionCookie(event, user)
+  return { authenticated: true, user, authEnabled: true }
+})
@@ -0,0 +1,8 @@
+// server/api/auth/logout.post.ts
+import { defineEventHandler } from 'h3'
+import { clearSessionCookie } from '../../utils/auth'
+
+export default defineEventHandler((event) => {
+  clearSessionCookie(event)
+  return { authenticated: false }
+})
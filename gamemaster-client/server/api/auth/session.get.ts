@@ -0,0 +1,10 @@
+// server/api/auth/session.get.ts
+import { defineEventHandler } from 'h3'
+import { getAuthSession, isAuthEnabled } from '../../utils/auth'
+
+// Lets the app decide whether to show the login page
+export default defineEventHandler(async (event) => {
+  if (!isAuthEnabled()) return { authenticated: true, user: null, authEnabled: false }
+  const session = await getAuthSession(event)
+  return { authenticated: !!session, user: session?.user ?? null, authEnabled: true }
+})
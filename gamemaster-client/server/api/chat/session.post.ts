@@ -1,5 +1,6 @@
 // server/api/chat/session.post.ts
 import { defineEventHandler, readBody, setResponseStatus } from 'h3'
+import { createChatSession, SessionStoreError } from '../../utils/sessionStore'
 
 type Msg = { role: 'system' | 'user' | 'assistant'; content: string }
 type ChatBody = {
@@ -11,18 +12,17 @@ type ChatBody = {
   temperature?: number
 }
 
-// simple in-memory store (dev-friendly). swap for Redis if needed.
-const store: Map<string, ChatBody> = (globalThis as any).__CHAT_STORE__ ?? new Map()
-;(globalThis as any).__CHAT_STORE__ = store
-
+// Payloads live in the configured session store (runtimeConfig.chatSessions) until streamed
 export default defineEventHandler(async (event) => {
   const body = await readBody<ChatBody>(event)
   if (!body?.provider || !body?.model || !Array.isArray(body?.messages)) {
     setResponseStatus(event, 400); return { error: 'provider, model, messages required' }
   }
-  const sid = crypto.randomUUID()
-  store.set(sid, body)
-  // expire after 2 minutes
-  setTimeout(() => store.delete(sid), 120_000)
-  return { sid }
+  try {
+    const sid = await createChatSession(body)
+    return { sid }
+  } catch (e: any) {
+    if (!(e instanceof SessionStoreError)) throw e
+    setResponseStatus(event, 413); return { error: e.message, code: e.code, ...e.info }
+  }
 })
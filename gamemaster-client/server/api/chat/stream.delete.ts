@@ -0,0 +1,12 @@
+// server/api/chat/stream.delete.ts
+import { defineEventHandler, getQuery } from 'h3'
+import { canAccessChatRun, cancelChatRun, getChatRun } from '../../utils/chatRuns'
+
+// Explicit cancel: abort the upstream call now instead of waiting out the resume grace period
+export default defineEventHandler((event) => {
+  const { sid } = getQuery(event)
+  const run = sid ? getChatRun(String(sid)) : undefined
+  if (!run || !canAccessChatRun(run, event)) return { cancelled: false }
+  cancelChatRun(run)
+  return { cancelled: true }
+})
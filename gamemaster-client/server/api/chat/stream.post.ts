@@ -0,0 +1,24 @@
+// server/api/chat/stream.post.ts
+import { defineEventHandler, getQuery, readBody, setResponseHeader, setResponseStatus } from 'h3'
+import { checkChatPayloadSize, SessionStoreError } from '../../utils/sessionStore'
+import { openSseResponse, streamChatTurn } from '../../utils/chatStream'
+
+// Single-request streaming: the payload is the POST body and the SSE frames come back on the
+// same response (read with fetch, since EventSource cannot POST). The X-Chat-Session header
+// names the run for resuming via GET /api/chat/stream and cancelling via DELETE.
+export default defineEventHandler(async (event) => {
+  const { debug } = getQuery(event)
+  const body = await readBody(event)
+
+  try {
+    checkChatPayloadSize(body)
+  } catch (e: any) {
+    if (!(e instanceof SessionStoreError)) throw e
+    setResponseStatus(event, 413); return { error: e.message, code: e.code, ...e.info }
+  }
+
+  const sid = crypto.randomUUID()
+  setResponseHeader(event, 'X-Chat-Session', sid)
+  openSseResponse(event)
+  await streamChatTurn(event, sid, body ?? {}, !!debug)
+})
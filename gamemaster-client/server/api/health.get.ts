@@ -0,0 +1,73 @@
+// server/api/health.get.ts - Diagnostics: MCP reachability, provider keys, tool cache, chat sessions
+import { defineEventHandler, setResponseStatus } from 'h3'
+import { getAuthSession, isAuthEnabled } from '../utils/auth'
+import { getMcpServers } from '../utils/mcpServers'
+import { isMcpReplaying } from '../utils/mcpRecorder'
+import { isMockMcpEnabled } from '../utils/mockMcp'
+import { getToolCacheInfo, probeMcpServer, type McpProbeResult } from '../utils/mcpTools'
+import { getSessionStoreDriver, useSessionStore } from '../utils/sessionStore'
+import { countChatRuns } from '../utils/chatRuns'
+
+type HealthStatus = 'ok' | 'degraded' | 'down'
+
+// Every poll from every tab would otherwise open a fresh MCP session per server
+const PROBE_TTL_MS = 5000
+let lastProbe: { at: number; results: Promise<McpProbeResult[]> } | null = null
+
+function probeMcpServers(): Promise<McpProbeResult[]> {
+  if (lastProbe && Date.now() - lastProbe.at < PROBE_TTL_MS) return lastProbe.results
+  const results = Promise.all(getMcpServers().map(s => probeMcpServer(s)))
+  lastProbe = { at: Date.now(), results }
+  return results
+}
+
+// Whether each provider has a key, never the key itself
+function getProviderStatus() {
+  const { anthropic, openai, openaicompat } = useRuntimeConfig() as any
+  return {
+    anthropic: { keyConfigured: !!anthropic?.apiKey },
+    // 's' is the placeholder default in nuxt.config
+    openai: { keyConfigured: !!openai?.apiKey && openai.apiKey !== 's' },
+    // Local servers usually run without a key; only the base URL has to answer
+    openaicompat: { keyConfigured: !!openaicompat?.apiKey, keyRequired: false }
+  }
+}
+
+export default defineEventHandler(async (event) => {
+  const mcp = await probeMcpServers()
+  const providers = getProviderStatus()
+
+  // Plain-language explanations for the status pill
+  const problems: string[] = []
+  for (const server of mcp) {
+    if (!server.ok) problems.push(`MCP server ${server.name} is not reachable: ${server.error}`)
+  }
+  if (!providers.anthropic.keyConfigured && !providers.openai.keyConfigured) {
+    problems.push('No LLM API key configured (ANTHROPIC_API_KEY or OPENAI_API_KEY)')
+  }
+
+  const primary = mcp.find(s => s.primary)
+  const status: HealthStatus = !primary?.ok ? 'down' : problems.length ? 'degraded' : 'ok'
+  if (status === 'down') setResponseStatus(event, 503)
+
+  // Load balancers only need the status; the details are for signed-in users
+  if (isAuthEnabled() && !(await getAuthSession(event))) return { status }
+
+  return {
+    status,
+    checkedAt: new Date(lastProbe!.at).toISOString(),
+    problems,
+    mcp: {
+      mock: isMockMcpEnabled(),
+      replay: isMcpReplaying(),
+      servers: mcp
+    },
+    providers,
+    tools: getToolCacheInfo(),
+    sessions: {
+      driver: getSessionStoreDriver(),
+      stored: await useSessionStore().size(),
+      runs: countChatRuns()
+    }
+  }
+})
@@ -0,0 +1,8 @@
+// server/api/mcp/servers.get.ts
+import { defineEventHandler } from 'h3'
+import { getMcpServers } from '../../utils/mcpServers'
+
+// Names only: the browser reaches each server through /mcp/<name>/ and never sees upstream URLs
+export default defineEventHandler(() => {
+  return { servers: getMcpServers().map(s => ({ name: s.name, primary: s.primary })) }
+})
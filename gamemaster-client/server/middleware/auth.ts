@@ -0,0 +1,24 @@
+// server/middleware/auth.ts - Gate /mcp, /api/mcp and /api/chat before anything is proxied or streamed
+import { createError, defineEventHandler } from 'h3'
+import { getAuthSession, hasValidMcpBearer, isAuthEnabled } from '../utils/auth'
+
+// /api/health stays open for load balancers; it answers anonymous callers with the status only,
+// so which upstreams and keys are configured is visible to signed-in users alone
+export default defineEventHandler(async (event) => {
+  const path = event.path.split('?')[0]
+  const isMcp = path === '/mcp' || path.startsWith('/mcp/')
+  const isApi = ['/api/chat', '/api/mcp'].some(p => path === p || path.startsWith(`${p}/`))
+  if (!isMcp && !isApi) return
+  if (!isAuthEnabled()) return
+
+  // Anthropic's server-side MCP client authenticates with the mcp_servers authorization_token
+  if (isMcp && hasValidMcpBearer(event)) return
+
+  const session = await getAuthSession(event)
+  if (session) {
+    event.context.auth = session
+    return
+  }
+
+  throw createError({ statusCode: 401, statusMessage: 'Unauthorized' })
+})
@@ -0,0 +1,6 @@
+// server/plugins/auth.ts - Refuse to start with an auth config that would leave /mcp open
+import { assertAuthConfig } from '../utils/auth'
+
+export default defineNitroPlugin(() => {
+  assertAuthConfig()
+})
@@ -0,0 +1,116 @@
+// server/utils/auth.ts - Browser sessions and MCP bearer tokens
+import type { H3Event } from 'h3'
+import { deleteCookie, getCookie, getHeader, setCookie } from 'h3'
+
+export const SESSION_COOKIE = 'gm_session'
+
+type AuthConfig = {
+  password?: string      // shared secret for the DM's browser
+  userTokens?: string    // "name:token,name:token" for per-user logins
+  sessionSecret?: string // HMAC key for the session cookie (defaults to the password)
+  sessionMaxAgeSeconds?: number | string
+  mcpToken?: string      // bearer token Anthropic sends back when calling /mcp
+}
+
+export type AuthSession = { user: string; exp: number }
+
+function getAuthConfig(): AuthConfig {
+  return ((useRuntimeConfig() as any).auth ?? {}) as AuthConfig
+}
+
+// Auth is off until a password or user tokens are configured (local development)
+export function isAuthEnabled(): boolean {
+  const { password, userTokens } = getAuthConfig()
+  return !!(password || userTokens)
+}
+
+// MCP_AUTH_TOKEN is only checked once auth is on; alone it would leave /mcp open while looking guarded
+export function assertAuthConfig() {
+  const { password, userTokens, mcpToken } = getAuthConfig()
+  if (mcpToken && !password && !userTokens) {
+    throw new Error('MCP_AUTH_TOKEN is set but auth is off: set AUTH_PASSWORD or AUTH_USER_TOKENS as well')
+  }
+}
+
+// Constant-time string comparison so token checks don't leak through timing
+function safeEqual(a: string, b: string): boolean {
+  let diff = a.length ^ b.length
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    diff |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0)
+  }
+  return diff === 0
+}
+
+// Resolve a login token to a user name, or null when it matches nothing
+export function findUserForToken(token: string): string | null {
+  if (!token) return null
+  const { password, userTokens } = getAuthConfig()
+  if (password && safeEqual(token, password)) return 'dm'
+
+  for (const entry of (userTokens || '').split(',')) {
+    const i = entry.indexOf(':')
+    if (i <= 0) continue
+    const name = entry.slice(0, i).trim()
+    if (safeEqual(token, entry.slice(i + 1).trim())) return name
+  }
+  return null
+}
+
+function base64url(bytes: Uint8Array): string {
+  let bin = ''
+  for (const b of bytes) bin += String.fromCharCode(b)
+  return btoa(bin).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+async function sign(value: string): Promise<string> {
+  const { sessionSecret, password, userTokens } = getAuthConfig()
+  const secret = sessionSecret || password || userTokens || ''
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign'])
+  const sig = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(value))
+  return base64url(new Uint8Array(sig))
+}
+
+// Cookie value: base64url(JSON session) + "." + HMAC
+export async function setSessionCookie(event: H3Event, user: string) {
+  const maxAge = Number(getAuthConfig().sessionMaxAgeSeconds) || 7 * 24 * 3600
+  const session: AuthSession = { user, exp: Date.now() + maxAge * 1000 }
+  const body = base64url(new TextEncoder().encode(JSON.stringify(session)))
+  setCookie(event, SESSION_COOKIE, `${body}.${await sign(body)}`, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: getHeader(event, 'x-forwarded-proto') === 'https' || (event.node.req.socket as any)?.encrypted === true,
+    path: '/',
+    maxAge
+  })
+}
+
+export function clearSessionCookie(event: H3Event) {
+  deleteCookie(event, SESSION_COOKIE, { path: '/' })
+}
+
+export async function getAuthSession(event: H3Event): Promise<AuthSession | null> {
+  const raw = getCookie(event, SESSION_COOKIE)
+  if (!raw) return null
+  const [body, sig] = raw.split('.')
+  if (!body || !sig || !safeEqual(sig, await sign(body))) return null
+
+  try {
+    const json = atob(body.replace(/-/g, '+').replace(/_/g, '/'))
+    const session = JSON.parse(json) as AuthSession
+    return session.exp > Date.now() ? session : null
+  } catch {
+    return null
+  }
+}
+
+// Bearer token accepted on /mcp (Anthropic's server-side MCP callback)
+export function hasValidMcpBearer(event: H3Event): boolean {
+  const { mcpToken } = getAuthConfig()
+  const header = getHeader(event, 'authorization') || ''
+  const match = header.match(/^Bearer\s+(.+)$/i)
+  return !!(mcpToken && match && safeEqual(match[1].trim(), mcpToken))
+}
+
+export function getMcpAuthToken(): string | undefined {
+  return getAuthConfig().mcpToken || undefined
+}
@@ -0,0 +1,132 @@
+// server/utils/chatRuns.ts - Resumable SSE runs keyed by chat session id
+import type { H3Event } from 'h3'
+
+// Each run keeps a bounded log of the SSE frames it has produced so an EventSource that
+// drops mid-turn can reconnect with Last-Event-ID and replay what it missed while the
+// upstream call keeps going.
+const MAX_LOGGED_FRAMES = 5000
+const RUN_RETENTION_MS = 60_000 // keep finished runs around for late reconnects
+const RESUME_GRACE_MS = 15_000 // a run nobody is listening to is aborted after this long
+
+type Frame = { id: number; text: string }
+type SseResponse = H3Event['node']['res']
+
+export interface ChatRun {
+  sid: string
+  owner: string | null // auth user who started the run; null while auth is off
+  frames: Frame[]
+  nextId: number
+  done: boolean
+  listeners: Set<(frame: Frame) => void>
+  closers: Set<() => void>
+  // Aborts the upstream fetch, retry sleeps and the tool loop
+  controller: AbortController
+  graceTimer: ReturnType<typeof setTimeout> | null
+}
+
+const runs: Map<string, ChatRun> = (globalThis as any).__CHAT_RUNS__ ?? new Map()
+;(globalThis as any).__CHAT_RUNS__ = runs
+
+export function createChatRun(sid: string, owner: string | null = null): ChatRun {
+  const run: ChatRun = {
+    sid,
+    owner,
+    frames: [],
+    nextId: 1,
+    done: false,
+    listeners: new Set(),
+    closers: new Set(),
+    controller: new AbortController(),
+    graceTimer: null
+  }
+  runs.set(sid, run)
+  return run
+}
+
+export function getChatRun(sid: string): ChatRun | undefined {
+  return runs.get(sid)
+}
+
+// Only the user who started a run may resume or cancel it; the sid alone is not enough
+export function canAccessChatRun(run: ChatRun, event: H3Event): boolean {
+  return run.owner === null || event.context.auth?.user === run.owner
+}
+
+// Runs still streaming vs. finished ones kept for late reconnects
+export function countChatRuns(): { active: number; finished: number } {
+  let active = 0
+  for (const run of runs.values()) if (!run.done) active++
+  return { active, finished: runs.size - active }
+}
+
+// Append one frame (`event` omitted for plain data frames) and fan it out to attached responses
+export function pushChatFrame(run: ChatRun, event: string | null, data: any) {
+  const id = run.nextId++
+  const text = `id: ${id}\n` + (event ? `event: ${event}\n` : '') + `data: ${JSON.stringify(data)}\n\n`
+  const frame = { id, text }
+  run.frames.push(frame)
+  if (run.frames.length > MAX_LOGGED_FRAMES) run.frames.shift()
+  for (const listener of run.listeners) listener(frame)
+}
+
+// Explicit cancel from the client: stop generating (and billing) right away
+export function cancelChatRun(run: ChatRun) {
+  if (run.done || run.controller.signal.aborted) return
+  run.controller.abort()
+}
+
+// End every attached response and schedule the run for removal
+export function finishChatRun(run: ChatRun) {
+  if (run.done) return
+  run.done = true
+  if (run.graceTimer) clearTimeout(run.graceTimer)
+  for (const close of run.closers) close()
+  run.closers.clear()
+  run.listeners.clear()
+  setTimeout(() => { if (runs.get(run.sid) === run) runs.delete(run.sid) }, RUN_RETENTION_MS)
+}
+
+// Stream a run to an SSE response, replaying frames after `lastEventId`.
+// Resolves when the run finishes or the client goes away.
+export function attachChatRun(run: ChatRun, res: SseResponse, lastEventId = 0): Promise<void> {
+  const write = (frame: Frame) => { res.write(frame.text); /* @ts-ignore */ res.flush?.() }
+
+  const oldest = run.frames[0]?.id ?? run.nextId
+  if (lastEventId + 1 < oldest) {
+    // The missed frames fell out of the bounded log; the client cannot rebuild the turn
+    res.write(`event: llm-error\ndata: ${JSON.stringify({ code: 'resume_gap', message: 'Missed stream events are no longer available', lastEventId, fatal: true })}\n\n`)
+    res.end()
+    return Promise.resolve()
+  }
+
+  for (const frame of run.frames) {
+    if (frame.id > lastEventId) write(frame)
+  }
+
+  if (run.done) {
+    res.end()
+    return Promise.resolve()
+  }
+
+  if (run.graceTimer) {
+    clearTimeout(run.graceTimer)
+    run.graceTimer = null
+  }
+
+  return new Promise<void>((resolve) => {
+    const close = () => {
+      if (!run.closers.has(close)) return
+      run.listeners.delete(write)
+      run.closers.delete(close)
+      if (!res.writableEnded) res.end()
+      // The client dropped mid-turn: give it a chance to resume before abandoning the upstream call
+      if (!run.done && run.listeners.size === 0) {
+        run.graceTimer = setTimeout(() => cancelChatRun(run), RESUME_GRACE_MS)
+      }
+      resolve()
+    }
+    run.listeners.add(write)
+    run.closers.add(close)
+    res.on('close', close)
+  })
+}
@@ -0,0 +1,707 @@
+// server/utils/chatStream.ts - One chat turn streamed as SSE frames into a resumable run
+import type { H3Event } from 'h3'
+import { executeMcpTools, getAnthropicToolDefinitions } from './mcpTools'
+import {
+  getProviderAdapter,
+  type ChatRequest, type ProviderAdapter, type RemoteMcpServer, type StreamEvent, type UpstreamRequest
+} from './providers'
+import type { ThinkingBlock, ToolDefinition } from '../../types/chatStream'
+import { isRetryableError, ProviderError } from './providers/errors'
+import { computeRetryDelay, getRetryPolicy, retryHintFromHeaders, type RetryPolicy } from './providers/retry'
+import { debug } from './debug'
+import { logger, updateLogContext, withLogContext } from './logger'
+import { getMcpAuthToken } from './auth'
+import { getMcpPublicEndpoint, getMcpServers } from './mcpServers'
+import { prefixToolName, toolResultTranscriptText, type ToolCall, type ToolResult } from '#shared/utils/toolExecution'
+import { getAllowedToolsByServer, selectToolsForGameModes } from './toolModes'
+import { attachChatRun, createChatRun, finishChatRun, pushChatFrame } from './chatRuns'
+
+export type ChatEmitters = {
+  send: (obj: any) => void
+  sendEvt: (name: string, obj: any) => void
+  sendError: (code: string, info: any) => void
+}
+
+// Switch the response to SSE and flush headers so errors can be streamed right away
+export function openSseResponse(event: H3Event) {
+  const res = event.node.res
+  res.statusCode = 200
+  res.setHeader('Content-Type', 'text/event-stream; charset=utf-8')
+  res.setHeader('Cache-Control', 'no-cache, no-transform')
+  res.setHeader('Connection', 'keep-alive')
+  res.setHeader('X-Accel-Buffering', 'no')
+  // @ts-ignore
+  res.socket?.setNoDelay?.(true)
+  res.flushHeaders?.()
+  return res
+}
+
+// Start a run for `sid` and stream it to this response. The run outlives the response:
+// reconnects attach to it, and it is only aborted by an explicit cancel or an expired grace period.
+export function streamChatTurn(event: H3Event, sid: string, body: any, debugMode: boolean) {
+  // Every log line of the turn, down to MCP tool calls, carries the sid
+  return withLogContext({ sid }, () => runChatTurn(event, sid, body, debugMode))
+}
+
+async function runChatTurn(event: H3Event, sid: string, body: any, debugMode: boolean) {
+  const res = event.node.res
+
+  if (!body?.provider || !body?.model || !Array.isArray(body?.messages)) {
+    // No run yet, so this frame carries no id
+    const error = body
+      ? { code: 'bad_request', message: 'provider, model, messages required', fatal: true }
+      : { code: 'session_not_found', message: 'Unknown or expired chat session', sid, fatal: true }
+    res.write(`event: llm-error\ndata: ${JSON.stringify(error)}\n\n`)
+    res.end(); return
+  }
+
+  // Frames go to the run log, not the response, so the turn survives a dropped connection
+  const run = createChatRun(sid, event.context.auth?.user ?? null)
+  const attached = attachChatRun(run, res)
+  const emitters: ChatEmitters = {
+    send: (obj: any) => pushChatFrame(run, null, obj),
+    sendEvt: (name: string, obj: any) => pushChatFrame(run, name, obj),
+    // Errors end the turn unless flagged `fatal: false`; the client closes the stream on fatal ones
+    sendError: (code: string, info: any) => pushChatFrame(run, 'llm-error', { code, fatal: true, ...info })
+  }
+  const signal = run.controller.signal
+  const started = Date.now()
+  logger.info('Chat turn started', { providerMode: body.providerMode || body.provider, model: body.model, messageCount: body.messages.length })
+
+  try {
+    await runChat(body, debugMode, emitters, signal)
+  } catch (e: any) {
+    logger.error('Chat turn failed', { error: e })
+    if (!signal.aborted) emitters.sendError('server_exception', { message: String(e?.message || e) })
+  } finally {
+    if (signal.aborted) {
+      debug.log('🛑 Chat run cancelled:', sid)
+      // Terminal frame for anyone who reconnects to a cancelled run
+      emitters.send({ done: true, cancelled: true })
+    }
+    logger.info('Chat turn finished', { cancelled: signal.aborted, frames: run.nextId - 1, durationMs: Date.now() - started })
+    finishChatRun(run)
+  }
+  await attached
+}
+
+// Run one chat turn against the upstream provider, emitting SSE frames as it goes
+async function runChat(body: any, debugMode: boolean, { send, sendEvt, sendError }: ChatEmitters, signal: AbortSignal) {
+  const config = useRuntimeConfig()
+  const systemFromList = body.messages.find((m: any) => m.role === 'system')?.content
+  const system = body.system ?? systemFromList
+  const chatMsgs = body.messages.filter((m: any) => m.role !== 'system')
+
+  // Detect provider mode from providerMode field or infer from provider
+  const providerMode = body.providerMode || body.provider
+  const isServerMcp = providerMode?.endsWith('-server-mcp') || providerMode === 'anthropic'
+  const isClientMcp = providerMode?.endsWith('-client-mcp')
+  const isServerLoop = providerMode?.endsWith('-server-loop')
+  const baseProvider = providerMode?.split('-')[0] || body.provider
+
+  if (debugMode) sendEvt('debug', { providerMode, isServerMcp, isClientMcp, isServerLoop, baseProvider })
+
+  const adapter = getProviderAdapter(baseProvider)
+  if (!adapter) {
+    sendError(isClientMcp ? 'unsupported_client_mcp_provider' : 'unsupported_provider', { provider: baseProvider, providerMode })
+    return
+  }
+
+  // 🔑 This app's public URL required for server-side MCP
+  let mcpServers: RemoteMcpServer[] | undefined
+  if (isServerMcp) {
+    if (!adapter.remoteMcp) {
+      sendError('unsupported_server_mcp_provider', { provider: baseProvider, providerMode })
+      return
+    }
+    if (!config.mcp?.publicUrl) {
+      sendError('missing_mcp_public_url', {
+        message: `Set MCP_PUBLIC_URL (this app's public base URL). ${adapter.name === 'openai' ? 'OpenAI' : 'Anthropic'} must reach MCP_PUBLIC_URL + /mcp/.`
+      })
+      return
+    }
+    // The provider calls every server through our /mcp proxy, so the auth middleware checks
+    // MCP_AUTH_TOKEN and the proxy adds each server's own token upstream. Limited to the tools
+    // the current game modes allow.
+    const allowedTools = await getAllowedToolsByServer()
+    mcpServers = getMcpServers().map(server => ({
+      name: server.name,
+      url: getMcpPublicEndpoint(server, config.mcp.publicUrl),
+      authToken: getMcpAuthToken(),
+      allowedTools: allowedTools.get(server.name)
+    }))
+  }
+
+  // Client MCP tools arrive with their mode tags; filter here so every mode uses the same rules
+  const clientTools = isClientMcp && Array.isArray(body.tools)
+    ? toToolDefinitions(await selectToolsForGameModes(body.tools))
+    : undefined
+
+  const chatRequest: ChatRequest = {
+    model: body.model,
+    system,
+    messages: chatMsgs,
+    // For client MCP mode, tools are discovered client-side and passed in the request
+    tools: clientTools,
+    maxTokens: body.maxTokens,
+    temperature: body.temperature,
+    thinkingBudget: body.thinkingBudget,
+    mcpServers
+  }
+
+  if (isServerLoop) {
+    // The server discovers tools and runs the whole tool loop against MCP itself
+    await streamWithToolCalling(chatRequest, adapter, config, send, sendEvt, sendError, signal)
+    return
+  }
+
+  let upstreamRequest: UpstreamRequest
+  try {
+    upstreamRequest = adapter.buildRequest(chatRequest, config)
+  } catch (e: any) {
+    if (!(e instanceof ProviderError)) throw e
+    sendError(e.code, e.info)
+    return
+  }
+
+  const toolCount = clientTools?.length || 0
+  sendEvt('debug', { mode: isClientMcp ? 'client-mcp' : 'server-mcp', provider: baseProvider, toolsEnabled: toolCount > 0, toolCount })
+  if (debugMode) sendEvt('debug', { url: upstreamRequest.url, headers: Object.keys(upstreamRequest.headers), model: body.model })
+
+  // Server-MCP tool calls happen upstream; they are reported like server-loop ones and recorded
+  const serverTools = isServerMcp ? createServerToolTracker(sendEvt) : null
+
+  // Thinking text gets its own SSE event; completed thinking blocks stay on the data channel
+  // so the client tool loop can echo them back with their signature
+  const forward = (evt: StreamEvent) => {
+    if (evt.type === 'thinking') return sendEvt('thinking', { text: evt.text })
+    if (serverTools?.track(evt)) return
+    send(evt)
+  }
+
+  const policy = getRetryPolicy(adapter.name, config)
+  const build = (model: string) => adapter.buildRequest({ ...chatRequest, model }, config)
+  if (await streamWithRetry(build, chatRequest.model, adapter, policy, forward, sendEvt, sendError, signal)) {
+    send(serverTools ? { done: true, game_responses: serverTools.finish() } : { done: true })
+  }
+}
+
+// Collects the text and mcp_tool_call / mcp_tool_result events of a server-MCP turn into the same
+// ordered game_responses the server loop produces, and reports each call as tool-thinking / tool-results.
+// Returns true for events it consumed.
+function createServerToolTracker(sendEvt: (name: string, obj: any) => void) {
+  const servers = getMcpServers()
+  const gameResponses: (string | any[])[] = []
+  const calls = new Map<string, any>()
+  const startedAt = new Map<string, number>()
+  let textBuffer = ''
+  let toolGroup: any[] | null = null
+
+  return {
+    track(evt: StreamEvent): boolean {
+      if (evt.type === 'text') {
+        textBuffer += evt.text
+        // Narration between calls starts a new tool group
+        if (evt.text.trim()) toolGroup = null
+        return false
+      }
+      if (evt.type === 'mcp_tool_call') {
+        if (textBuffer.trim()) gameResponses.push(textBuffer)
+        textBuffer = ''
+        if (!toolGroup) gameResponses.push(toolGroup = [])
+
+        // Same model-facing names as client modes, so transcripts match across modes
+        const server = servers.find(s => s.name === evt.server)
+        const name = server ? prefixToolName(server, evt.name) : evt.name
+        let params: any = {}
+        try { params = JSON.parse(evt.arguments || '{}') } catch {}
+        const call = { tool_name: name, tool_id: evt.id, tool_parameters: params, tool_result: 'Error: No result returned' }
+        toolGroup.push(call)
+        calls.set(evt.id, call)
+        startedAt.set(evt.id, Date.now())
+        sendEvt('tool-thinking', { toolCalls: [{ name, id: evt.id, arguments: params }], server: evt.server })
+        return true
+      }
+      if (evt.type === 'mcp_tool_result') {
+        const call = calls.get(evt.toolUseId)
+        if (call) call.tool_result = evt.isError && !evt.content.startsWith('Error') ? `Error: ${evt.content}` : evt.content
+        // Measured from the call block to its result block, which includes the provider's round trip
+        const started = startedAt.get(evt.toolUseId)
+        sendEvt('tool-results', {
+          results: [{
+            id: evt.toolUseId,
+            success: !evt.isError,
+            content: evt.content,
+            durationMs: started === undefined ? undefined : Date.now() - started
+          }]
+        })
+        return true
+      }
+      return false
+    },
+    finish(): (string | any[])[] {
+      if (textBuffer.trim()) gameResponses.push(textBuffer)
+      textBuffer = ''
+      return gameResponses
+    }
+  }
+}
+
+// Thrown from the stream parser when the provider reports a retryable error mid-stream
+class RetryableStreamError extends Error {}
+
+// Sleep helper; resolves early when the run is cancelled
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms)
+    function done() {
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', done)
+      resolve()
+    }
+    signal?.addEventListener('abort', done, { once: true })
+  })
+}
+
+// Outcome of one upstream attempt; failures carry the llm-error code and payload
+type AttemptResult = {
+  ok: boolean
+  retryable?: boolean
+  code?: string
+  error?: any
+  hintMs?: number | null
+}
+
+// One upstream request. Failures are classified for the retry loop instead of reported.
+async function attemptUpstream(
+  url: string,
+  headers: Record<string, string>,
+  payload: any,
+  adapter: ProviderAdapter,
+  policy: RetryPolicy,
+  emit: (evt: StreamEvent) => void,
+  sendError: (code: string, info: any) => void,
+  signal?: AbortSignal
+): Promise<AttemptResult> {
+  let upstream: Response
+  try {
+    debug.log('📤 Making fetch request to LLM API...', payload.model)
+    upstream = await fetch(url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(payload),
+      signal
+    })
+    debug.log('📥 Received response from LLM API:', upstream.status, upstream.statusText)
+  } catch (e: any) {
+    logger.error('LLM API fetch failed', { provider: adapter.name, model: payload.model, error: e })
+    // No response started, so nothing reached the client; RETRY_NETWORK_ERRORS decides whether to resend
+    return { ok: false, retryable: policy.retryNetworkErrors, code: 'upstream_fetch_failed', error: { message: String(e?.message || e) } }
+  }
+
+  if (!upstream.ok) {
+    const text = (await upstream.text().catch(() => '')) || ''
+    logger.error('LLM API returned error', { provider: adapter.name, model: payload.model, status: upstream.status, statusText: upstream.statusText, details: text.slice(0, 1000) })
+
+    let errorData: any
+    try {
+      errorData = JSON.parse(text)
+    } catch {
+      errorData = { message: text }
+    }
+
+    return {
+      ok: false,
+      retryable: isRetryableError({ status: upstream.status, error: errorData }, policy.retryStatuses),
+      code: 'upstream_non_2xx',
+      error: {
+        status: upstream.status,
+        statusText: upstream.statusText,
+        details: text.slice(0, 4000),
+        error: errorData,
+        message: errorData?.error?.message || errorData?.message || upstream.statusText
+      },
+      hintMs: retryHintFromHeaders(upstream.headers)
+    }
+  }
+
+  // Request succeeded - parse the stream
+  try {
+    await parseStreamResponse(upstream, payload.model, adapter, emit, sendError)
+    return { ok: true }
+  } catch (e: any) {
+    // Aborting the fetch also errors the body reader
+    if (signal?.aborted) return { ok: false, retryable: false, code: 'cancelled', error: { message: 'Cancelled' } }
+
+    if (e instanceof RetryableStreamError) {
+      debug.log('⚠️ Retryable streaming error caught:', e.message)
+      return { ok: false, retryable: true, code: 'provider_error', error: { message: e.message } }
+    }
+    throw e
+  }
+}
+
+// Retry wrapper for streaming requests, driven by the provider's retry policy.
+// Retryable failures back off (honoring retry hints from the provider), then move down the
+// fallback model list. Only a request that has emitted nothing is retried; a retry after that
+// would repeat output the client already has. Every attempt is built afresh by `build` (its own
+// headers and Idempotency-Key, and the fallback model's payload). Normalized events go to `emit`;
+// resolves false once a terminal error has been reported.
+async function streamWithRetry(
+  build: (model: string) => UpstreamRequest,
+  model: string,
+  adapter: ProviderAdapter,
+  policy: RetryPolicy,
+  emit: (evt: StreamEvent) => void,
+  sendEvt: (name: string, obj: any) => void,
+  sendError: (code: string, info: any) => void,
+  signal?: AbortSignal
+): Promise<boolean> {
+  const models = [model, ...policy.fallbackModels.filter(m => m !== model)]
+  let modelIndex = 0
+  let retryCount = 0
+  let lastError: any = null
+  let emitted = false
+  const track = (evt: StreamEvent) => {
+    emitted = true
+    emit(evt)
+  }
+
+  debug.log('🚀 streamWithRetry: Making request to', adapter.name, { models })
+
+  while (true) {
+    // Cancelled by the client (or nobody came back to the stream) - stop without reporting
+    if (signal?.aborted) return false
+
+    const model = models[modelIndex]
+    let request: UpstreamRequest
+    try {
+      request = build(model)
+    } catch (e: any) {
+      if (!(e instanceof ProviderError)) throw e
+      sendError(e.code, e.info)
+      return false
+    }
+    const result = await attemptUpstream(
+      request.url, request.headers, request.payload,
+      adapter, policy, track, sendError, signal
+    )
+    if (result.ok) return true
+    if (signal?.aborted) return false
+
+    lastError = result.error
+    if (!result.retryable) {
+      sendError(result.code!, result.error)
+      return false
+    }
+    if (emitted) {
+      logger.warn('Not retrying LLM request after partial output', { model, reason: lastError?.message })
+      sendError(result.code!, { ...result.error, partialOutput: true })
+      return false
+    }
+
+    if (retryCount < policy.maxRetries) {
+      retryCount++
+      const delay = computeRetryDelay(policy, retryCount, result.hintMs)
+      const waitSeconds = Math.ceil(delay / 1000)
+      logger.warn('Retrying LLM request', { model, attempt: retryCount, maxRetries: policy.maxRetries, delayMs: delay, serverHint: result.hintMs != null, reason: lastError?.message })
+
+      // Notify user about retry
+      sendEvt('retry-status', {
+        attempt: retryCount,
+        maxRetries: policy.maxRetries,
+        delaySeconds: waitSeconds,
+        reason: lastError?.message || 'Service overloaded',
+        model
+      })
+
+      await sleep(delay, signal)
+      continue
+    }
+
+    if (modelIndex + 1 < models.length) {
+      // This model stays overloaded - fall back to the next one with a fresh retry budget
+      modelIndex++
+      retryCount = 0
+      logger.warn('Falling back to next model', { model: models[modelIndex], previousModel: model })
+      sendEvt('retry-status', {
+        attempt: 0,
+        maxRetries: policy.maxRetries,
+        delaySeconds: 0,
+        reason: lastError?.message || 'Service overloaded',
+        model: models[modelIndex],
+        previousModel: model
+      })
+      continue
+    }
+
+    // Max retries exceeded on every model
+    sendError('max_retries_exceeded', {
+      ...lastError,
+      message: `Failed after ${policy.maxRetries} retry attempts${models.length > 1 ? ` on ${models.join(', ')}` : ''}: ${lastError?.message || 'Unknown error'}`
+    })
+    return false
+  }
+}
+
+// Iterate the JSON payloads of an upstream SSE body
+async function* readSseJson(upstream: Response): AsyncGenerator<any> {
+  const reader = upstream.body!.getReader()
+  const decoder = new TextDecoder()
+  let buf = ''
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      buf += decoder.decode(value, { stream: true })
+
+      for (;;) {
+        const i = buf.indexOf('\n\n')
+        if (i === -1) break
+        const frame = buf.slice(0, i)
+        buf = buf.slice(i + 2)
+        const dataLines = frame.split('\n').filter(l => l.startsWith('data:')).map(l => l.slice(5).trimStart())
+        if (!dataLines.length) continue
+        const data = dataLines.join('\n').trim()
+        if (!data || data === '[DONE]' || data === 'DONE') continue
+
+        try {
+          yield JSON.parse(data)
+        } catch {
+          // Ignore non-JSON frames
+        }
+      }
+    }
+  } finally {
+    reader.cancel().catch(() => {})
+  }
+}
+
+// Parse the SSE stream response and forward it as normalized stream events
+async function parseStreamResponse(
+  upstream: Response,
+  model: string,
+  adapter: ProviderAdapter,
+  emit: (evt: StreamEvent) => void,
+  sendError: (code: string, info: any) => void
+) {
+  const parser = adapter.createParser()
+
+  // Providers report usage piecemeal (Anthropic: input at message_start, output at message_delta);
+  // merge it and emit a single usage event once the upstream call has finished
+  const usage: { inputTokens?: number; outputTokens?: number; cacheReadTokens?: number; cacheWriteTokens?: number } = {}
+
+  for await (const evt of readSseJson(upstream)) {
+    debug.log(`📥 Server: Received SSE event from ${adapter.name}:`, evt?.type)
+
+    for (const out of parser.parse(evt)) {
+      if (out.type === 'error') {
+        debug.error('❌ Provider error received:', out.message)
+        // Close the stream and let the outer retry logic start over
+        if (out.retryable) throw new RetryableStreamError(out.message || 'Overloaded')
+        // Reported, but the stream (and a server-loop turn) carries on
+        sendError('provider_error', { provider: adapter.name, message: out.message, fatal: false })
+        continue
+      }
+      if (out.type === 'usage') {
+        if (out.inputTokens !== undefined) usage.inputTokens = out.inputTokens
+        if (out.outputTokens !== undefined) usage.outputTokens = out.outputTokens
+        if (out.cacheReadTokens !== undefined) usage.cacheReadTokens = out.cacheReadTokens
+        if (out.cacheWriteTokens !== undefined) usage.cacheWriteTokens = out.cacheWriteTokens
+        continue
+      }
+      emit(out)
+    }
+  }
+
+  for (const out of parser.finish()) emit(out)
+
+  if (usage.inputTokens !== undefined || usage.outputTokens !== undefined) {
+    emit({
+      type: 'usage',
+      inputTokens: usage.inputTokens ?? 0,
+      outputTokens: usage.outputTokens ?? 0,
+      cacheReadTokens: usage.cacheReadTokens ?? 0,
+      cacheWriteTokens: usage.cacheWriteTokens ?? 0,
+      model
+    })
+  }
+}
+
+// Providers reject unknown fields, so mode tags (and anything else) are dropped
+function toToolDefinitions(tools: any[]): ToolDefinition[] {
+  return tools.map(({ name, description, input_schema }) => ({ name, description, input_schema }))
+}
+
+function isEmptyAssistantMessage(message: any): boolean {
+  if (message?.role !== 'assistant') return false
+  const { content } = message
+  return typeof content === 'string' ? !content.trim() : Array.isArray(content) && content.length === 0
+}
+
+// Maximum model round trips per turn in server-loop mode (matches the client loop)
+const MAX_TOOL_ITERATIONS = 20
+
+// Stream response with tool calling orchestration (server-loop modes).
+// Text streams to the client as usual, tool activity is reported through tool-thinking /
+// tool-results events, and the final frame carries the ordered game_responses for the transcript.
+async function streamWithToolCalling(
+  initialRequest: ChatRequest,
+  adapter: ProviderAdapter,
+  config: any,
+  send: (obj: any) => void,
+  sendEvt: (name: string, obj: any) => void,
+  sendError: (code: string, info: any) => void,
+  signal?: AbortSignal
+) {
+  const tools = toToolDefinitions(await selectToolsForGameModes(await getAnthropicToolDefinitions()))
+  const policy = getRetryPolicy(adapter.name, config)
+  const conversationMessages = [...initialRequest.messages]
+  // Older clients send their empty reply placeholder; once tool turns follow it, it is an empty
+  // assistant message mid-conversation, which the provider rejects
+  while (isEmptyAssistantMessage(conversationMessages[conversationMessages.length - 1])) conversationMessages.pop()
+
+  // Track responses in order: text strings and tool call arrays
+  const gameResponses: (string | any[])[] = []
+  let currentTextBuffer = ''
+  let iterations = 0
+  let finished = false
+
+  while (iterations < MAX_TOOL_ITERATIONS) {
+    if (signal?.aborted) return
+    iterations++
+    updateLogContext({ iteration: iterations })
+    sendEvt('debug', { iteration: iterations, messageCount: conversationMessages.length, toolCount: tools.length })
+
+
+    // Collect assistant text, thinking + tool calls (keyed by stream index) for this iteration
+    let assistantContent = ''
+    const pendingCalls = new Map<number, { id: string; name: string; arguments: string }>()
+    const thinkingBlocks = new Map<number, ThinkingBlock>()
+
+    const build = (model: string) => adapter.buildRequest({ ...initialRequest, model, messages: conversationMessages, tools }, config)
+    const ok = await streamWithRetry(build, initialRequest.model, adapter, policy, (evt) => {
+      if (evt.type === 'text') {
+        assistantContent += evt.text
+        currentTextBuffer += evt.text
+        send(evt)
+      } else if (evt.type === 'thinking') {
+        sendEvt('thinking', { text: evt.text })
+      } else if (evt.type === 'thinking_block') {
+        thinkingBlocks.set(evt.index, evt.block)
+      } else if (evt.type === 'tool_call_start') {
+        pendingCalls.set(evt.index, { id: evt.id, name: evt.name, arguments: '' })
+      } else if (evt.type === 'tool_call_delta') {
+        const call = pendingCalls.get(evt.index)
+        if (call) call.arguments += evt.delta
+      } else if (evt.type === 'tool_call_end') {
+        const call = pendingCalls.get(evt.index)
+        if (!call) return
+        if (evt.id) call.id = evt.id
+        if (evt.name) call.name = evt.name
+        if (typeof evt.arguments === 'string') call.arguments = evt.arguments
+      } else {
+        send(evt)
+      }
+    }, sendEvt, sendError, signal)
+
+    if (!ok) return
+
+    // No tool calls - we're done
+    if (pendingCalls.size === 0) {
+      finished = true
+      break
+    }
+
+    const toolCalls: ToolCall[] = [...pendingCalls.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([, call]) => ({
+        id: call.id,
+        type: 'function',
+        function: { name: call.name, arguments: call.arguments || '{}' }
+      }))
+
+    // Unparseable input is echoed as {} and answered with an error; the tool never runs with
+    // arguments the model didn't send
+    const inputErrors = new Map<string, string>()
+    for (const tc of toolCalls) {
+      try {
+        JSON.parse(tc.function.arguments)
+      } catch (e: any) {
+        inputErrors.set(tc.id, String(e?.message || e))
+      }
+    }
+    const parseArgs = (tc: ToolCall) => inputErrors.has(tc.id) ? {} : JSON.parse(tc.function.arguments)
+
+    sendEvt('tool-thinking', {
+      toolCalls: toolCalls.map(tc => ({ name: tc.function.name, id: tc.id, arguments: parseArgs(tc) })),
+      iteration: iterations
+    })
+
+    // Execute tools against MCP server; cancelling the run aborts calls still in flight
+    const executed = await executeMcpTools(toolCalls.filter(tc => !inputErrors.has(tc.id)), signal)
+    if (signal?.aborted) return
+    const resultById = new Map(executed.map(r => [r.tool_call_id, r]))
+    const toolResults: ToolResult[] = toolCalls.map(tc => inputErrors.has(tc.id)
+      ? {
+          tool_call_id: tc.id,
+          isError: true,
+          content: `Error parsing tool arguments: ${inputErrors.get(tc.id)}. The tool was not executed; send its arguments as one complete JSON object.`
+        }
+      : resultById.get(tc.id) ?? { tool_call_id: tc.id, isError: true, content: 'Error: No result returned' })
+
+    sendEvt('tool-results', {
+      results: toolResults.map((r: ToolResult) => ({
+        id: r.tool_call_id,
+        success: !r.isError,
+        content: r.content,
+        durationMs: r.durationMs
+      })),
+      iteration: iterations
+    })
+
+    // Flush any accumulated text before tool calls
+    if (currentTextBuffer.trim()) {
+      gameResponses.push(currentTextBuffer)
+      currentTextBuffer = ''
+    }
+
+    gameResponses.push(toolCalls.map((tc, index) => ({
+      tool_name: tc.function.name,
+      tool_id: tc.id,
+      tool_parameters: parseArgs(tc),
+      tool_result: toolResultTranscriptText(toolResults[index])
+    })))
+
+    // Continue the conversation with provider-neutral tool_use / tool_result blocks.
+    // Thinking blocks must lead the assistant turn, signature intact, or the provider rejects it.
+    conversationMessages.push({
+      role: 'assistant',
+      content: [
+        ...[...thinkingBlocks.entries()].sort(([a], [b]) => a - b).map(([, block]) => block),
+        ...(assistantContent.trim() ? [{ type: 'text', text: assistantContent }] : []),
+        ...toolCalls.map(tc => ({ type: 'tool_use', id: tc.id, name: tc.function.name, input: parseArgs(tc) }))
+      ]
+    })
+    conversationMessages.push({
+      role: 'user',
+      content: toolResults.map(r => ({
+        type: 'tool_result',
+        tool_use_id: r.tool_call_id,
+        content: r.content,
+        ...(r.isError ? { is_error: true } : {})
+      }))
+    })
+  }
+
+  if (!finished) {
+    sendEvt('debug', { maxIterationsReached: true, iterations })
+  }
+
+  if (currentTextBuffer.trim()) {
+    gameResponses.push(currentTextBuffer)
+  }
+
+  send({ done: true, game_responses: gameResponses })
+}
@@ -1,24 +1,26 @@
-// server/utils/debug.ts - Server-side environment-aware debug logging
-// Logs are disabled by default, enable with DEBUG=true environment variable
+// server/utils/debug.ts - Console-style shorthand over the structured logger
+// debug.log lines are only written at LOG_LEVEL=debug (the default when DEBUG=true)
+import { isLogLevelEnabled, writeLog, type LogLevel } from './logger'
 
-const DEBUG = process.env.DEBUG === 'true'
+// First string argument becomes the message; the rest are kept as structured `args`
+function forward(level: LogLevel, args: any[]) {
+  const [first, ...rest] = args
+  if (typeof first === 'string') writeLog(level, first, {}, rest)
+  else writeLog(level, '', {}, args)
+}
 
 export const debug = {
-  // Regular debug logs - only in debug mode
-  log: (...args: any[]) => {
-    if (DEBUG) console.log(...args)
-  },
+  // Regular debug logs - only at debug level
+  log: (...args: any[]) => forward('debug', args),
 
-  // Warnings - only in debug mode (critical warnings should use console.warn directly)
-  warn: (...args: any[]) => {
-    if (DEBUG) console.warn(...args)
-  },
+  // Warnings - shown at the default info level and above
+  warn: (...args: any[]) => forward('warn', args),
 
   // Errors - always logged
-  error: (...args: any[]) => {
-    console.error(...args)
-  },
+  error: (...args: any[]) => forward('error', args),
 
   // Check if debug mode is enabled
-  enabled: DEBUG
+  get enabled() {
+    return isLogLevelEnabled('debug')
+  }
 }
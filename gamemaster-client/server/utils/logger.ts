@@ -0,0 +1,211 @@
+// server/utils/logger.ts - Structured JSON-lines logging with levels, rotation and redaction
+import { AsyncLocalStorage } from 'node:async_hooks'
+import { createWriteStream, existsSync, mkdirSync, promises as fs, statSync } from 'fs'
+import type { WriteStream } from 'fs'
+import { dirname, resolve } from 'path'
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+export type LogFields = Record<string, any>
+
+export interface Logger {
+  debug(msg: string, fields?: LogFields): void
+  info(msg: string, fields?: LogFields): void
+  warn(msg: string, fields?: LogFields): void
+  error(msg: string, fields?: LogFields): void
+  child(fields: LogFields): Logger
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 }
+
+type LoggingOptions = { level: LogLevel; file: string; maxBytes: number; maxFiles: number }
+
+let options: LoggingOptions | null = null
+
+function getOptions(): LoggingOptions {
+  if (options) return options
+  let logging: any = {}
+  try {
+    logging = (useRuntimeConfig() as any).logging ?? {}
+  } catch {} // outside a Nitro request context during startup
+  const level = String(logging.level || (process.env.DEBUG === 'true' ? 'debug' : 'info')) as LogLevel
+  options = {
+    level: level in LEVELS ? level : 'info',
+    file: logging.file === undefined ? 'logs/server.log' : String(logging.file),
+    maxBytes: Number(logging.maxBytes) || 10 * 1024 * 1024,
+    maxFiles: logging.maxFiles === undefined ? 5 : Number(logging.maxFiles)
+  }
+  return options
+}
+
+export function isLogLevelEnabled(level: LogLevel): boolean {
+  return LEVELS[level] >= LEVELS[getOptions().level]
+}
+
+// Correlation fields (sid, tool-loop iteration, ...) follow the async call chain of a chat turn
+const contextStore = new AsyncLocalStorage<LogFields>()
+
+export function withLogContext<T>(fields: LogFields, fn: () => T): T {
+  return contextStore.run({ ...contextStore.getStore(), ...fields }, fn)
+}
+
+// Update the current context in place, e.g. when the tool loop moves to the next iteration
+export function updateLogContext(fields: LogFields) {
+  const store = contextStore.getStore()
+  if (store) Object.assign(store, fields)
+}
+
+const SECRET_KEYS = /^(authorization|proxy-authorization|x-api-key|api[-_]?key|authorization_token|auth[-_]?token|mcp[-_]?token|password|session[-_]?secret|secret|cookie|set-cookie)$/i
+const SECRET_PATTERNS: [RegExp, string][] = [
+  [/\bsk-(?:ant-|proj-)?[A-Za-z0-9_-]{8,}/g, 'sk-[REDACTED]'],
+  [/(Bearer\s+)[^\s"',]+/gi, '$1[REDACTED]']
+]
+
+let configuredSecrets: string[] | null = null
+
+// API keys and tokens from runtimeConfig, redacted wherever they show up verbatim
+function getConfiguredSecrets(): string[] {
+  if (configuredSecrets) return configuredSecrets
+  try {
+    const c = useRuntimeConfig() as any
+    configuredSecrets = [
+      c.anthropic?.apiKey, c.openai?.apiKey, c.openaicompat?.apiKey,
+      c.auth?.password, c.auth?.sessionSecret, c.auth?.mcpToken
+    ].filter((s: any) => typeof s === 'string' && s.length >= 8)
+  } catch {
+    return []
+  }
+  return configuredSecrets!
+}
+
+function redactString(value: string): string {
+  let out = value
+  for (const secret of getConfiguredSecrets()) out = out.split(secret).join('[REDACTED]')
+  for (const [pattern, replacement] of SECRET_PATTERNS) out = out.replace(pattern, replacement)
+  return out
+}
+
+// Deep copy with secret-looking keys and values masked; Errors become plain objects
+export function redact(value: any, depth = 0): any {
+  if (typeof value === 'string') return redactString(value)
+  if (value === null || typeof value !== 'object') return value
+  if (depth > 8) return '[Truncated]'
+  if (value instanceof Error) {
+    return { name: value.name, message: redactString(value.message), stack: value.stack && redactString(value.stack) }
+  }
+  if (Array.isArray(value)) return value.map(v => redact(v, depth + 1))
+  if (value instanceof Headers) return redact(Object.fromEntries(value.entries()), depth)
+
+  const out: Record<string, any> = {}
+  for (const [key, v] of Object.entries(value)) {
+    out[key] = SECRET_KEYS.test(key) && v ? '[REDACTED]' : redact(v, depth + 1)
+  }
+  return out
+}
+
+// Buffered append stream; lines written while a rotation is in progress wait in `pending`
+let stream: WriteStream | null = null
+let fileSize = 0
+let rotating = false
+const pending: string[] = []
+
+function openStream(path: string) {
+  stream = createWriteStream(path, { flags: 'a' })
+  stream.on('error', (error: Error) => console.error('Failed to write to log file:', error))
+}
+
+async function renameIfExists(from: string, to: string) {
+  try {
+    await fs.rename(from, to)
+  } catch (error: any) {
+    if (error?.code !== 'ENOENT') throw error
+  }
+}
+
+// file -> file.1 -> file.2 ... up to maxFiles rotated files
+async function rotate(path: string, maxFiles: number) {
+  rotating = true
+  const old = stream
+  stream = null
+  try {
+    await new Promise<void>(resolve => old ? old.end(resolve) : resolve())
+    if (maxFiles <= 0) {
+      await fs.rm(path, { force: true })
+    } else {
+      for (let i = maxFiles - 1; i >= 1; i--) await renameIfExists(`${path}.${i}`, `${path}.${i + 1}`)
+      await renameIfExists(path, `${path}.1`)
+    }
+  } catch (error) {
+    console.error('Failed to rotate log file:', error)
+  }
+  fileSize = 0
+  openStream(path)
+  rotating = false
+  for (const line of pending.splice(0)) writeLine(line)
+}
+
+function writeLine(line: string) {
+  const { file, maxBytes, maxFiles } = getOptions()
+  if (!file) return
+  if (rotating) {
+    pending.push(line)
+    return
+  }
+  const path = resolve(file)
+  try {
+    if (!stream) {
+      mkdirSync(dirname(path), { recursive: true })
+      fileSize = existsSync(path) ? statSync(path).size : 0
+      openStream(path)
+    }
+    const bytes = Buffer.byteLength(line)
+    if (fileSize > 0 && fileSize + bytes > maxBytes) {
+      pending.push(line)
+      void rotate(path, maxFiles)
+      return
+    }
+    stream!.write(line)
+    fileSize += bytes
+  } catch (error) {
+    console.error('Failed to write to log file:', error)
+  }
+}
+
+const CONSOLE: Record<LogLevel, (...args: any[]) => void> = {
+  debug: (...args) => console.log(...args),
+  info: (...args) => console.log(...args),
+  warn: (...args) => console.warn(...args),
+  error: (...args) => console.error(...args)
+}
+
+// `args` are extra console-style arguments (from the debug shim); they are logged as a field
+export function writeLog(level: LogLevel, msg: string, fields: LogFields = {}, args: any[] = []) {
+  if (!isLogLevelEnabled(level)) return
+
+  const context = contextStore.getStore()
+  const entry = redact({
+    ts: new Date().toISOString(),
+    level,
+    msg,
+    ...context,
+    ...fields,
+    ...(args.length ? { args } : {})
+  })
+  writeLine(JSON.stringify(entry) + '\n')
+
+  const tags = context ? Object.entries(context).map(([k, v]) => `${k}=${v}`).join(' ') : ''
+  const extra = Object.keys(fields).length ? [redact(fields)] : []
+  CONSOLE[level](...(tags ? [`[${tags}]`] : []), redactString(msg), ...extra, ...redact(args))
+}
+
+function createLogger(bound: LogFields = {}): Logger {
+  const log = (level: LogLevel) => (msg: string, fields?: LogFields) => writeLog(level, msg, { ...bound, ...fields })
+  return {
+    debug: log('debug'),
+    info: log('info'),
+    warn: log('warn'),
+    error: log('error'),
+    child: (fields: LogFields) => createLogger({ ...bound, ...fields })
+  }
+}
+
+export const logger = createLogger()
@@ -0,0 +1,244 @@
+// server/utils/mcpRecorder.ts - JSONL recording of MCP traffic and replay from a recording
+import type { H3Event } from 'h3'
+import { setResponseHeaders, setResponseStatus } from 'h3'
+import type { FetchLike } from '@modelcontextprotocol/sdk/shared/transport.js'
+import { promises as fs } from 'fs'
+import { dirname, resolve } from 'path'
+import { debug } from './debug'
+
+// One line per HTTP exchange with an MCP server, from the /mcp proxy or a server-side SDK client
+export interface McpRecord {
+  ts: string
+  server: string
+  httpMethod: string
+  path: string
+  sessionId: string | null         // mcp-session-id sent by the client
+  status: number
+  responseSessionId: string | null // mcp-session-id returned by the server
+  contentType: string
+  request: any                     // JSON-RPC message or batch; null for GET / DELETE
+  responses: any[]                 // JSON-RPC messages in the response, SSE frames unpacked
+}
+
+function getRecorderConfig(): { recordFile?: string; replayFile?: string } {
+  const { mcp } = useRuntimeConfig() as any
+  return { recordFile: mcp?.recordFile || undefined, replayFile: mcp?.replayFile || undefined }
+}
+
+// Replay wins when both are set: a replayed session is never re-recorded over itself
+export function isMcpReplaying(): boolean {
+  return !!getRecorderConfig().replayFile
+}
+
+export function isMcpRecording(): boolean {
+  const { recordFile, replayFile } = getRecorderConfig()
+  return !!recordFile && !replayFile
+}
+
+function parseJson(text: string | undefined): any {
+  if (!text) return null
+  try {
+    return JSON.parse(text)
+  } catch {
+    return { raw: text }
+  }
+}
+
+// JSON-RPC messages from a response body, JSON or SSE
+function parseMcpMessages(contentType: string, text: string): any[] {
+  if (!text.trim()) return []
+  if (contentType.includes('text/event-stream')) {
+    const out: any[] = []
+    for (const raw of text.replace(/\r\n/g, '\n').split('\n\n')) {
+      const data = raw.split('\n').filter(l => l.startsWith('data:')).map(l => l.slice(5).trimStart()).join('\n')
+      if (data) out.push(parseJson(data))
+    }
+    return out
+  }
+  const json = parseJson(text)
+  return Array.isArray(json) ? json : [json]
+}
+
+// Appends are chained so concurrent exchanges never interleave within a line
+let writeChain: Promise<void> = Promise.resolve()
+
+function appendMcpRecord(record: McpRecord) {
+  const file = resolve(getRecorderConfig().recordFile!)
+  writeChain = writeChain
+    .then(async () => {
+      await fs.mkdir(dirname(file), { recursive: true })
+      await fs.appendFile(file, JSON.stringify(record) + '\n')
+    })
+    .catch(e => debug.error('❌ MCP recording failed:', e))
+}
+
+// Tee the upstream body: one branch streams to the client, the other is collected into a record
+// once the exchange ends (or `closed` aborts because the client went away mid-stream)
+export function recordMcpExchange(
+  base: Omit<McpRecord, 'ts' | 'request' | 'responses'>,
+  rawRequest: string | undefined,
+  body: ReadableStream<Uint8Array> | null,
+  closed?: AbortSignal
+): ReadableStream<Uint8Array> | null {
+  const request = parseJson(rawRequest)
+  if (!body) {
+    appendMcpRecord({ ts: new Date().toISOString(), ...base, request, responses: [] })
+    return null
+  }
+
+  const [toClient, toRecorder] = body.tee()
+  const reader = toRecorder.getReader()
+  // Long-lived GET streams only end when the client disconnects; stop reading then
+  closed?.addEventListener('abort', () => { reader.cancel().catch(() => {}) })
+
+  ;(async () => {
+    const decoder = new TextDecoder()
+    let text = ''
+    try {
+      for (;;) {
+        const { done, value } = await reader.read()
+        if (done) break
+        text += decoder.decode(value, { stream: true })
+      }
+    } catch {}
+    appendMcpRecord({ ts: new Date().toISOString(), ...base, request, responses: parseMcpMessages(base.contentType, text) })
+  })()
+
+  return toClient
+}
+
+type ReplayState = { records: McpRecord[]; used: Set<McpRecord> }
+let replayState: Promise<ReplayState> | null = null
+
+async function loadReplay(): Promise<ReplayState> {
+  replayState ??= (async () => {
+    const file = resolve(getRecorderConfig().replayFile!)
+    const records: McpRecord[] = []
+    for (const line of (await fs.readFile(file, 'utf8')).split('\n')) {
+      if (!line.trim()) continue
+      try {
+        records.push(JSON.parse(line))
+      } catch {
+        debug.warn('⚠️ Skipping malformed MCP recording line')
+      }
+    }
+    debug.log(`📼 Replaying ${records.length} MCP exchanges from ${file}`)
+    return { records, used: new Set<McpRecord>() }
+  })()
+  return replayState
+}
+
+// Key order doesn't matter when comparing params
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().map(k => `${JSON.stringify(k)}:${stableStringify(value[k])}`).join(',')}}`
+  }
+  return JSON.stringify(value)
+}
+
+// Recorded exchanges are consumed in order: same method and params first, then same method.
+// Once every match is used the last one is reused, so repeated reads (tools/list) keep working.
+function findRecord(state: ReplayState, server: string, message: any): McpRecord | undefined {
+  const candidates = state.records.filter(r =>
+    r.server === server && r.httpMethod === 'POST' && !Array.isArray(r.request) && r.request?.method === message.method
+  )
+  const params = stableStringify(message.params ?? null)
+  const sameParams = candidates.filter(r => stableStringify(r.request.params ?? null) === params)
+
+  const match = sameParams.find(r => !state.used.has(r))
+    ?? candidates.find(r => !state.used.has(r))
+    ?? sameParams[sameParams.length - 1]
+    ?? candidates[candidates.length - 1]
+  if (match) state.used.add(match)
+  return match
+}
+
+// Recorded messages with the incoming request id in place of the recorded one
+function replayMessages(record: McpRecord, id: any): any[] {
+  return record.responses.map(m =>
+    m && m.id === record.request.id && ('result' in m || 'error' in m) ? { ...m, id } : m
+  )
+}
+
+// Answer one MCP HTTP request from the recording instead of the upstream server
+async function replayMcpExchange(server: string, httpMethod: string, rawBody: string | undefined): Promise<Response> {
+  // No standalone SSE stream in replay; the SDK treats 405 as "server doesn't offer one"
+  if (httpMethod === 'GET') return new Response(null, { status: 405, statusText: 'Method Not Allowed' })
+  if (httpMethod !== 'POST') return new Response(null, { status: 204 })
+
+  let state: ReplayState
+  try {
+    state = await loadReplay()
+  } catch (err: any) {
+    replayState = null // pick the file up once it exists
+    return Response.json(
+      { error: 'MCP replay file not readable', detail: String(err?.message ?? err) },
+      { status: 503, statusText: 'Service Unavailable' }
+    )
+  }
+
+  const body = parseJson(rawBody)
+  const messages: any[] = Array.isArray(body) ? body : [body]
+  const requests = messages.filter(m => m && m.method && m.id !== undefined)
+
+  // Notifications and client responses (e.g. sampling results) only need an acknowledgement
+  if (!requests.length) return new Response(null, { status: 202, statusText: 'Accepted' })
+
+  const out: any[] = []
+  let sse = false
+  let sessionId: string | null = null
+  for (const message of requests) {
+    const record = findRecord(state, server, message)
+    if (!record) {
+      debug.warn(`📼 No recorded response for ${server} ${message.method}`)
+      out.push({ jsonrpc: '2.0', id: message.id, error: { code: -32603, message: `No recorded response for ${message.method}` } })
+      continue
+    }
+    sse ||= record.contentType.includes('text/event-stream')
+    sessionId ??= record.responseSessionId
+    out.push(...replayMessages(record, message.id))
+  }
+
+  const headers: Record<string, string> = {
+    'content-type': sse ? 'text/event-stream' : 'application/json',
+    'cache-control': 'no-cache'
+  }
+  if (sessionId) headers['mcp-session-id'] = sessionId
+
+  const text = sse
+    ? out.map(m => `event: message\ndata: ${JSON.stringify(m)}\n\n`).join('')
+    : JSON.stringify(Array.isArray(body) ? out : out[0])
+  return new Response(text, { status: 200, headers })
+}
+
+// Answer an /mcp request from the recording instead of the upstream server
+export async function replayMcpRequest(event: H3Event, server: string, httpMethod: string, rawBody: string | undefined) {
+  const response = await replayMcpExchange(server, httpMethod, rawBody)
+  setResponseStatus(event, response.status, response.statusText)
+  setResponseHeaders(event, Object.fromEntries(response.headers))
+  return (await response.text()) || null
+}
+
+// fetch for the server-side SDK clients (server tool loop, health probe), so their traffic is
+// replayed and recorded like the browser's traffic through the /mcp proxy
+export function createMcpRecorderFetch(server: string): FetchLike {
+  return async (url, init) => {
+    const httpMethod = init?.method || 'GET'
+    const rawBody = typeof init?.body === 'string' ? init.body : undefined
+    if (isMcpReplaying()) return replayMcpExchange(server, httpMethod, rawBody)
+
+    const upstream = await fetch(url, init)
+    if (!isMcpRecording()) return upstream
+    const body = recordMcpExchange({
+      server,
+      httpMethod,
+      path: '/',
+      sessionId: new Headers(init?.headers).get('mcp-session-id'),
+      status: upstream.status,
+      responseSessionId: upstream.headers.get('mcp-session-id'),
+      contentType: upstream.headers.get('content-type') || ''
+    }, rawBody, upstream.body, init?.signal ?? undefined)
+    return new Response(body, { status: upstream.status, statusText: upstream.statusText, headers: upstream.headers })
+  }
+}
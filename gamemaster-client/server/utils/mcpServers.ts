@@ -0,0 +1,190 @@
+// server/utils/mcpServers.ts - Configured MCP servers and the shared /mcp proxy
+import type { H3Event } from 'h3'
+import {
+  getMethod, getRequestHeaders, readRawBody,
+  setResponseStatus, setResponseHeaders, sendStream
+} from 'h3'
+import { isMcpRecording, isMcpReplaying, recordMcpExchange, replayMcpRequest } from './mcpRecorder'
+import { handleMockMcpRequest, isMockMcpEnabled } from './mockMcp'
+import { logger } from './logger'
+import { MCP_TOOL_SEPARATOR } from '#shared/utils/toolExecution'
+
+export interface McpServerConfig {
+  name: string
+  url: string            // upstream base URL; '/mcp' is appended once
+  primary: boolean       // gamemaster-mcp: served at /mcp and its tool names stay unprefixed
+  authToken?: string     // bearer token the /mcp proxy sends upstream to this server
+}
+
+export const PRIMARY_MCP_SERVER = 'gamemaster-mcp'
+
+const HOP_BY_HOP = new Set([
+  'connection','keep-alive','proxy-authenticate','proxy-authorization',
+  'te','trailer','transfer-encoding','upgrade','host','content-length'
+])
+
+// This app's credentials (session cookie, MCP bearer token) never reach the MCP server; the
+// server's own authToken is sent instead
+const CREDENTIALS = new Set(['cookie', 'authorization'])
+
+// MCP_SERVERS is either JSON ([{"name":"rules","url":"https://..."}]) or "rules=https://...,music=https://..."
+function parseServerList(value: any): { name: string; url: string; authToken?: string }[] {
+  if (Array.isArray(value)) return value
+  if (typeof value !== 'string' || !value.trim()) return []
+  const text = value.trim()
+  if (text.startsWith('[')) {
+    try {
+      return JSON.parse(text)
+    } catch {
+      return []
+    }
+  }
+  return text.split(',').map((entry) => {
+    const i = entry.indexOf('=')
+    return { name: entry.slice(0, i).trim(), url: entry.slice(i + 1).trim() }
+  })
+}
+
+// gamemaster-mcp (MCP_URL) first, then the extra servers from MCP_SERVERS
+export function getMcpServers(): McpServerConfig[] {
+  const { mcp } = useRuntimeConfig() as any
+  const servers: McpServerConfig[] = [
+    { name: PRIMARY_MCP_SERVER, url: mcp?.url || 'http://localhost:8000', primary: true }
+  ]
+
+  for (const s of parseServerList(mcp?.servers)) {
+    const name = String(s?.name || '')
+    // Names end up in URLs and tool names, so keep them to a safe alphabet
+    if (!/^[a-zA-Z0-9-]+$/.test(name) || name.includes(MCP_TOOL_SEPARATOR) || !s.url) continue
+    if (servers.some(existing => existing.name === name)) continue
+    servers.push({ name, url: s.url, primary: false, authToken: s.authToken })
+  }
+  return servers
+}
+
+// Upstream endpoint: base URL with a trailing /mcp exactly once
+export function getMcpUpstreamBase(server: McpServerConfig): string {
+  let base = server.url.replace(/\/+$/, '')
+  base = base.replace(/(?:\/mcp)+$/, '')  // collapse trailing /mcp, /mcp/mcp, etc.
+  return `${base}/mcp`
+}
+
+// This app's /mcp proxy endpoint for a server, as providers reach it in server-MCP mode
+export function getMcpPublicEndpoint(server: McpServerConfig, publicUrl: string): string {
+  const base = publicUrl.replace(/\/+$/, '')
+  return server.primary ? `${base}/mcp/` : `${base}/mcp/${server.name}/`
+}
+
+// /mcp/<name>/... goes to that server; anything else under /mcp goes to gamemaster-mcp
+export function resolveMcpProxyTarget(path: string | string[] | undefined): { server: McpServerConfig; suffix: string } {
+  const segs = (Array.isArray(path) ? path : String(path ?? '').split('/')).filter(Boolean)
+  const servers = getMcpServers()
+  const named = segs.length ? servers.find(s => !s.primary && s.name === segs[0]) : undefined
+  if (named) return { server: named, suffix: segs.slice(1).join('/') }
+  return { server: servers[0], suffix: segs.join('/') }
+}
+
+// JSON-RPC method and id(s) of a request body, for log correlation
+function describeRpc(body: string | undefined): { rpcMethod?: string; mcpRequestId?: any } {
+  if (!body) return {}
+  try {
+    const json = JSON.parse(body)
+    const messages = Array.isArray(json) ? json : [json]
+    const ids = messages.map(m => m?.id).filter(id => id !== undefined)
+    return {
+      rpcMethod: messages.map(m => m?.method ?? (m?.result !== undefined || m?.error ? 'response' : '?')).join(','),
+      ...(ids.length ? { mcpRequestId: ids.length === 1 ? ids[0] : ids } : {})
+    }
+  } catch {
+    return {}
+  }
+}
+
+// Aborts when the client disconnects before the response has finished
+function responseClosed(event: H3Event): AbortSignal {
+  const closed = new AbortController()
+  const res = event.node.res
+  res.on('close', () => { if (!res.writableFinished) closed.abort() })
+  return closed.signal
+}
+
+// Stream one request through to the server's MCP endpoint
+export async function proxyMcpRequest(event: H3Event, server: McpServerConfig, suffix: string) {
+  const upstreamBase = getMcpUpstreamBase(server)
+  const targetURL = suffix ? `${upstreamBase}/${suffix}` : `${upstreamBase}/`
+
+  const method = getMethod(event)
+  const incoming = getRequestHeaders(event)
+
+  // Forward headers (minus hop-by-hop and credentials)
+  const fwdHeaders: Record<string, string> = {}
+  for (const [k, v] of Object.entries(incoming)) {
+    const key = k.toLowerCase()
+    if (!HOP_BY_HOP.has(key) && !CREDENTIALS.has(key) && typeof v === 'string') fwdHeaders[k] = v
+  }
+  if (server.authToken) fwdHeaders.authorization = `Bearer ${server.authToken}`
+
+  // Body for non-GET/HEAD
+  const hasBody = method !== 'GET' && method !== 'HEAD'
+  const body = hasBody ? await readRawBody(event) : undefined
+
+  // Correlate by MCP session and JSON-RPC request id(s)
+  const log = logger.child({
+    server: server.name,
+    mcpSessionId: incoming['mcp-session-id'] ?? null,
+    ...describeRpc(body)
+  })
+  log.debug('MCP proxy request', { httpMethod: method, path: suffix ? `/${suffix}` : '/' })
+
+  // 📼 Answer from a recording without contacting the upstream
+  if (isMcpReplaying()) return replayMcpRequest(event, server.name, method, body)
+
+  // 🧪 gamemaster-mcp served in-process from the fixture campaign
+  if (server.primary && isMockMcpEnabled()) return handleMockMcpRequest(event, body)
+
+  let upstream: Response
+  try {
+    upstream = await fetch(targetURL, {
+      method,
+      headers: fwdHeaders,
+      body: hasBody ? (body as any) : undefined
+    })
+  } catch (err: any) {
+    log.warn('Upstream MCP not reachable', { error: err })
+    setResponseStatus(event, 502, 'Bad Gateway')
+    return { error: 'Upstream MCP not reachable', server: server.name, detail: String(err?.message ?? err) }
+  }
+
+  log.debug('MCP proxy response', { status: upstream.status, contentType: upstream.headers.get('content-type') })
+
+  // Mirror status + headers (minus hop-by-hop)
+  setResponseStatus(event, upstream.status, upstream.statusText)
+  const outHeaders: Record<string, string> = {}
+  upstream.headers.forEach((val, key) => {
+    if (!HOP_BY_HOP.has(key.toLowerCase()) && key.toLowerCase() !== 'set-cookie') outHeaders[key] = val
+  })
+  setResponseHeaders(event, outHeaders)
+
+  // 📼 Record the exchange while it streams through
+  const upstreamBody = isMcpRecording()
+    ? recordMcpExchange({
+        server: server.name,
+        httpMethod: method,
+        path: suffix ? `/${suffix}` : '/',
+        sessionId: (incoming['mcp-session-id'] as string) ?? null,
+        status: upstream.status,
+        responseSessionId: upstream.headers.get('mcp-session-id'),
+        contentType: upstream.headers.get('content-type') || ''
+      }, body, upstream.body, responseClosed(event))
+    : upstream.body
+
+  // Stream body through (handles JSON, binary, SSE)
+  if (upstreamBody) {
+    // Better UX for SSE
+    if ((outHeaders['content-type'] || '').includes('text/event-stream')) {
+      event.node.res.setHeader('Cache-Control', 'no-cache')
+    }
+    return sendStream(event, upstreamBody as any)
+  }
+  return null
+}
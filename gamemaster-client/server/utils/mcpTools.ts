@@ -1,23 +1,87 @@
 // server/utils/mcpTools.ts - Server-side MCP tool utilities
-import { getRequestURL } from 'h3'
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js'
+import { ToolListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js'
 import { debug } from './debug'
-
-// Tool cache to avoid repeated calls
+import { logger } from './logger'
+import { getToolTags } from './toolModes'
+import { connectMockMcpClient, isMockMcpEnabled } from './mockMcp'
+import { createMcpRecorderFetch, isMcpReplaying } from './mcpRecorder'
+import { getMcpServers, getMcpUpstreamBase, type McpServerConfig } from './mcpServers'
+import {
+  parseToolExecutionOptions, prefixToolName, resolveToolOwner, runToolCalls, SEQUENTIAL_TOOL_TAG,
+  type ToolCall, type ToolResult, type ToolTransport
+} from '#shared/utils/toolExecution'
+
+// Tool cache to avoid repeated calls; cleared early when a server announces a tool list change
 const toolCache = new Map<string, any[]>()
 const cacheExpiry = new Map<string, number>()
 const CACHE_TTL = 5 * 60 * 1000 // 5 minutes
-export interface ToolCall {
-  id: string
-  type: 'function'
-  function: {
-    name: string
-    arguments: string
+
+// One server-side MCP session per configured server, shared by every request in this process
+const clients = new Map<string, Client>()
+const connecting = new Map<string, Promise<Client>>()
+
+// Same path as the /mcp proxy: the replay file first, then the in-process mock, then the
+// upstream (recorded when MCP_RECORD_FILE is set). Returns the HTTP transport, if one was used.
+async function connectMcpTransport(
+  c: Client,
+  server: McpServerConfig,
+  timeout?: number
+): Promise<StreamableHTTPClientTransport | undefined> {
+  if (server.primary && isMockMcpEnabled() && !isMcpReplaying()) {
+    await connectMockMcpClient(c)
+    return undefined
   }
+  const transport = new StreamableHTTPClientTransport(new URL(`${getMcpUpstreamBase(server)}/`), {
+    fetch: createMcpRecorderFetch(server.name),
+    // Like the proxy, send the server's own token upstream
+    requestInit: server.authToken ? { headers: { authorization: `Bearer ${server.authToken}` } } : undefined
+  })
+  await c.connect(transport, timeout ? { timeout } : undefined)
+  return transport
+}
+
+async function connectClient(server: McpServerConfig): Promise<Client> {
+  const existing = clients.get(server.name)
+  if (existing) return existing
+  const pending = connecting.get(server.name)
+  if (pending) return pending
+
+  const p = (async () => {
+    try {
+      const c = new Client({ name: 'gamemaster-server', version: '1.0.0' })
+      await connectMcpTransport(c, server)
+      c.setNotificationHandler(ToolListChangedNotificationSchema, async () => {
+        debug.log(`🔔 MCP tools changed on ${server.name}`)
+        clearToolCache()
+      })
+      clients.set(server.name, c)
+      return c
+    } finally {
+      connecting.delete(server.name)
+    }
+  })()
+  connecting.set(server.name, p)
+
+  return p
 }
 
-export interface ToolResult {
-  tool_call_id: string
-  content: string
+// Run an MCP call, reconnecting once if the upstream session has expired
+async function withClient<T>(server: McpServerConfig, fn: (c: Client) => Promise<T>): Promise<T> {
+  const c = await connectClient(server)
+  try {
+    return await fn(c)
+  } catch (e: any) {
+    const msg = String(e?.message || e)
+    if (/session/i.test(msg) || /expired|not\s*found/i.test(msg)) {
+      try { await clients.get(server.name)?.close() } catch {}
+      clients.delete(server.name)
+      clearToolCache() // a new session may expose a different tool list
+      return await fn(await connectClient(server))
+    }
+    throw e
+  }
 }
 
 export interface AnthropicTool {
@@ -28,6 +92,7 @@ export interface AnthropicTool {
     properties: Record<string, any>
     required?: string[]
   }
+  tags?: string[] // mode tags for filterToolsByModes; stripped before reaching the provider
 }
 
 export interface OpenAITool {
@@ -39,10 +104,11 @@ export interface OpenAITool {
     properties: Record<string, any>
     required?: string[]
   }
+  tags?: string[]
 }
 
-// Get MCP tools by using the existing session from the client
-async function getMcpTools(event?: any): Promise<any[]> {
+// Get MCP tools from every configured server, prefixed by owner
+async function getMcpTools(): Promise<any[]> {
   const cacheKey = 'mcp-tools'
   const now = Date.now()
 
@@ -55,44 +121,31 @@ async function getMcpTools(event?: any): Promise<any[]> {
     return cached
   }
 
-  debug.log('Fetching MCP tools from server...')
-
-  try {
-    // Use the same MCP proxy that handles sessions
-    const baseUrl = event ? `${getRequestURL(event).protocol}//${getRequestURL(event).host}` : 'http://localhost:3000'
-
-    const response = await fetch(`${baseUrl}/mcp`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json, text/event-stream'
-      },
-      body: JSON.stringify({
-        jsonrpc: '2.0',
-        id: 'tools-list',
-        method: 'tools/list',
-        params: {}
-      })
-    })
+  debug.log('Fetching MCP tools from servers...')
 
-    if (!response.ok) {
-      debug.warn('Failed to fetch MCP tools via proxy:', response.status, response.statusText)
-      return cached || [] // Return cached version if available
+  // Servers are listed independently so one being down doesn't hide the others' tools
+  const tools: any[] = []
+  let failed = false
+  for (const server of getMcpServers()) {
+    try {
+      const result = await withClient(server, c => c.listTools())
+      for (const tool of result?.tools || []) {
+        tools.push({ ...tool, name: prefixToolName(server, tool.name) })
+      }
+    } catch (error) {
+      failed = true
+      debug.warn(`Error fetching MCP tools from ${server.name}:`, error)
     }
+  }
 
-    const result = await response.json()
-    const tools = result?.result?.tools || []
+  if (failed && cached && !tools.length) return cached // Return cached version if available
 
-    // Cache the result
-    toolCache.set(cacheKey, tools)
-    cacheExpiry.set(cacheKey, now + CACHE_TTL)
+  // Cache the result
+  toolCache.set(cacheKey, tools)
+  cacheExpiry.set(cacheKey, now + CACHE_TTL)
 
-    debug.log('Fetched and cached MCP tools:', tools.length)
-    return tools
-  } catch (error) {
-    debug.warn('Error fetching MCP tools via proxy:', error)
-    return cached || [] // Return cached version if available
-  }
+  debug.log('Fetched and cached MCP tools:', tools.length)
+  return tools
 }
 
 // Convert MCP tool to Anthropic format
@@ -104,7 +157,8 @@ function convertMcpToAnthropicTool(mcpTool: any): AnthropicTool {
       type: 'object',
       properties: mcpTool.inputSchema?.properties || {},
       required: mcpTool.inputSchema?.required || []
-    }
+    },
+    tags: getToolTags(mcpTool)
   }
 }
 
@@ -118,12 +172,13 @@ function convertMcpToOpenAITool(mcpTool: any): OpenAITool {
       type: 'object',
       properties: mcpTool.inputSchema?.properties || {},
       required: mcpTool.inputSchema?.required || []
-    }
+    },
+    tags: getToolTags(mcpTool)
   }
 }
 
 // Get tool definitions for Anthropic
-export async function getAnthropicToolDefinitions(event?: any): Promise<AnthropicTool[]> {
+export async function getAnthropicToolDefinitions(): Promise<AnthropicTool[]> {
   const cacheKey = 'anthropic-tools'
   const now = Date.now()
 
@@ -137,7 +192,7 @@ export async function getAnthropicToolDefinitions(event?: any): Promise<Anthropi
   }
 
   debug.log('Converting MCP tools to Anthropic format...')
-  const mcpTools = await getMcpTools(event)
+  const mcpTools = await getMcpTools()
   const anthropicTools = mcpTools.map(convertMcpToAnthropicTool)
 
   // Cache the result
@@ -149,7 +204,7 @@ export async function getAnthropicToolDefinitions(event?: any): Promise<Anthropi
 }
 
 // Get tool definitions for OpenAI
-export async function getOpenAIToolDefinitions(event?: any): Promise<OpenAITool[]> {
+export async function getOpenAIToolDefinitions(): Promise<OpenAITool[]> {
   const cacheKey = 'openai-tools'
   const now = Date.now()
 
@@ -163,7 +218,7 @@ export async function getOpenAIToolDefinitions(event?: any): Promise<OpenAITool[
   }
 
   debug.log('Converting MCP tools to OpenAI format...')
-  const mcpTools = await getMcpTools(event)
+  const mcpTools = await getMcpTools()
   const openaiTools = mcpTools.map(convertMcpToOpenAITool)
 
   // Cache the result
@@ -174,6 +229,58 @@ export async function getOpenAIToolDefinitions(event?: any): Promise<OpenAITool[
   return openaiTools
 }
 
+// Text of a gamemaster-mcp resource, read over the shared server-side session
+export async function readMcpResource(uri: string): Promise<string> {
+  const primary = getMcpServers().find(s => s.primary)!
+  const r = await withClient(primary, c => c.readResource({ uri }))
+  const first: any = r?.contents?.[0]
+  return typeof first?.text === 'string' ? first.text : ''
+}
+
+// Aggregated tool list as cached right now, for /api/health
+export function getToolCacheInfo(): { count: number | null; ageMs: number | null } {
+  const cached = toolCache.get('mcp-tools')
+  const expiry = cacheExpiry.get('mcp-tools')
+  if (!cached || !expiry) return { count: null, ageMs: null }
+  return { count: cached.length, ageMs: Date.now() - (expiry - CACHE_TTL) }
+}
+
+export interface McpProbeResult {
+  name: string
+  primary: boolean
+  ok: boolean
+  initializeMs?: number
+  toolsListMs?: number
+  toolCount?: number
+  error?: string
+}
+
+// Fresh initialize + tools/list on a throwaway session, so the shared clients and caches are untouched.
+// It goes the way /mcp does, so a replayed or mocked server reports as healthy.
+export async function probeMcpServer(server: McpServerConfig, timeoutMs = 5000): Promise<McpProbeResult> {
+  const result: McpProbeResult = { name: server.name, primary: server.primary, ok: false }
+  const c = new Client({ name: 'gamemaster-health', version: '1.0.0' })
+  let transport: StreamableHTTPClientTransport | undefined
+  try {
+    let started = Date.now()
+    transport = await connectMcpTransport(c, server, timeoutMs)
+    result.initializeMs = Date.now() - started
+
+    started = Date.now()
+    const { tools } = await c.listTools(undefined, { timeout: timeoutMs })
+    result.toolsListMs = Date.now() - started
+    result.toolCount = tools?.length ?? 0
+    result.ok = true
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : String(error)
+  } finally {
+    // End the probe session upstream too, or every poll would leave one behind
+    await transport?.terminateSession().catch(() => {})
+    c.close().catch(() => {})
+  }
+  return result
+}
+
 // Clear tool cache (useful for development or when MCP server changes)
 export function clearToolCache(): void {
   debug.log('Clearing tool cache')
@@ -181,90 +288,38 @@ export function clearToolCache(): void {
   cacheExpiry.clear()
 }
 
-// Execute tool calls against MCP server
-export async function executeMcpTools(toolCalls: ToolCall[], event?: any): Promise<ToolResult[]> {
-  const results: ToolResult[] = []
-  const baseUrl = event ? `${getRequestURL(event).protocol}//${getRequestURL(event).host}` : 'http://localhost:3000'
-
-  for (const toolCall of toolCalls) {
-    try {
-      let args: Record<string, any>
-      try {
-        args = JSON.parse(toolCall.function.arguments)
-      } catch (parseError) {
-        results.push({
-          tool_call_id: toolCall.id,
-          content: `Error parsing tool arguments: ${parseError instanceof Error ? parseError.message : String(parseError)}`
-        })
-        continue
-      }
-
-      const response = await fetch(`${baseUrl}/mcp`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Accept': 'application/json, text/event-stream'
-        },
-        body: JSON.stringify({
-          jsonrpc: '2.0',
-          id: `tool-${toolCall.id}`,
-          method: 'tools/call',
-          params: {
-            name: toolCall.function.name,
-            arguments: args
-          }
-        })
-      })
-
-      if (!response.ok) {
-        results.push({
-          tool_call_id: toolCall.id,
-          content: `HTTP error ${response.status}: ${response.statusText}`
-        })
-        continue
-      }
-
-      const result = await response.json()
-
-      if (result.error) {
-        results.push({
-          tool_call_id: toolCall.id,
-          content: `MCP error: ${result.error.message}`
-        })
-        continue
-      }
-
-      // Convert MCP result to string format
-      let content: string
-      const mcpResult = result.result
-      if (typeof mcpResult === 'string') {
-        content = mcpResult
-      } else if (mcpResult && typeof mcpResult === 'object') {
-        // Handle MCP SDK result format
-        const resultContent = mcpResult?.content ?? mcpResult
-        if (Array.isArray(resultContent) && resultContent[0]?.text) {
-          content = resultContent[0].text
-        } else if (typeof resultContent?.text === 'string') {
-          content = resultContent.text
-        } else {
-          content = JSON.stringify(mcpResult, null, 2)
-        }
-      } else {
-        content = String(mcpResult)
-      }
-
-      results.push({
-        tool_call_id: toolCall.id,
-        content
+// Execute tool calls against the MCP servers that own them, over the shared server-side sessions.
+// Scheduling (TOOL_CONCURRENCY, `sequential` tools) and timeouts are shared with the client loop.
+export async function executeMcpTools(toolCalls: ToolCall[], signal?: AbortSignal): Promise<ToolResult[]> {
+  const servers = getMcpServers()
+  const sequential = new Set<string>()
+  try {
+    for (const tool of await getMcpTools()) {
+      if (getToolTags(tool).includes(SEQUENTIAL_TOOL_TAG)) sequential.add(tool.name)
+    }
+  } catch {} // unknown tags: run everything concurrently
+
+  const transport: ToolTransport = {
+    // Route the call to the server that owns the tool, without its name prefix
+    call: async (toolCall, args, timeout, callSignal) => {
+      const { server, tool } = resolveToolOwner(servers, toolCall.function.name)
+      const started = Date.now()
+      let mcpSessionId: string | undefined
+      const result = await withClient(server, (c) => {
+        mcpSessionId = (c.transport as any)?.sessionId
+        return c.callTool({ name: tool, arguments: args }, undefined, { signal: callSignal, timeout })
       })
-
-    } catch (error) {
-      results.push({
-        tool_call_id: toolCall.id,
-        content: `Error executing tool ${toolCall.function.name}: ${error instanceof Error ? error.message : String(error)}`
+      logger.info('MCP tool call', {
+        server: server.name, tool, toolCallId: toolCall.id, mcpSessionId,
+        isError: !!(result as any)?.isError, durationMs: Date.now() - started
       })
+      return result
+    },
+    onFailure: (toolCall, reason, durationMs) => {
+      logger.warn('MCP tool call failed', { tool: toolCall.function.name, toolCallId: toolCall.id, reason, durationMs })
     }
   }
 
-  return results
-}
\ No newline at end of file
+  const options = parseToolExecutionOptions((useRuntimeConfig().public as any).toolExecution)
+  return runToolCalls(toolCalls, sequential, transport, options, signal)
+}
@@ -0,0 +1,248 @@
+// server/utils/mockMcp.ts - In-process stand-in for gamemaster-mcp, backed by a fixture campaign
+import type { H3Event } from 'h3'
+import { setResponseStatus } from 'h3'
+import { promises as fs } from 'fs'
+import { randomUUID } from 'crypto'
+import { Server } from '@modelcontextprotocol/sdk/server/index.js'
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js'
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js'
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import {
+  CallToolRequestSchema, GetPromptRequestSchema, ListPromptsRequestSchema,
+  ListResourcesRequestSchema, ListToolsRequestSchema, ReadResourceRequestSchema,
+  isInitializeRequest
+} from '@modelcontextprotocol/sdk/types.js'
+import type { Tool } from '@modelcontextprotocol/sdk/types.js'
+import defaultFixture from '../mock/campaign.json'
+import { debug } from './debug'
+
+// Only the surface the client reads: the current_campaign resources, the TranscriptTree,
+// current_prompt, the interaction recorders, render_hex_map and a dice roller for the tool loop.
+type MockCampaign = typeof defaultFixture & { transcript: { node_type: string; children: any[] } }
+
+let campaign: Promise<MockCampaign> | null = null
+
+// Runtime state starts from a copy of the fixture; recorded interactions live until restart
+function loadCampaign(): Promise<MockCampaign> {
+  campaign ??= (async () => {
+    const { mcp } = useRuntimeConfig() as any
+    const file = mcp?.mockFixture
+    const data = file ? JSON.parse(await fs.readFile(file, 'utf8')) : structuredClone(defaultFixture)
+    debug.log(`🧪 Mock MCP campaign "${data.name}"${file ? ` from ${file}` : ''}`)
+    return data
+  })()
+  return campaign
+}
+
+export function isMockMcpEnabled(): boolean {
+  const { mcp } = useRuntimeConfig() as any
+  return mcp?.mock === true || mcp?.mock === 'true'
+}
+
+const RESOURCES = [
+  { uri: 'resource://current_campaign', name: 'current_campaign', mimeType: 'application/json' },
+  { uri: 'resource://current_campaign/characters', name: 'current_campaign_characters', mimeType: 'application/json' },
+  { uri: 'resource://current_campaign/game_state', name: 'current_campaign_game_state', mimeType: 'application/json' },
+  { uri: 'resource://current_transcript', name: 'current_transcript', mimeType: 'application/json' }
+]
+
+// Tags travel in _meta._fastmcp like FastMCP's, so mode filtering behaves the same
+const TOOLS: Tool[] = [
+  {
+    name: 'roll_dice',
+    description: 'Roll dice in standard notation (e.g. 1d20+5, 2d6) and return the individual rolls and total.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        notation: { type: 'string', description: 'Dice notation such as 1d20+5' },
+        reason: { type: 'string', description: 'What the roll is for' }
+      },
+      required: ['notation']
+    },
+    _meta: { _fastmcp: { tags: ['mode:any'] } }
+  },
+  {
+    name: 'render_hex_map',
+    description: 'Render the hex map for the current location.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        render_mode: { type: 'string', enum: ['json', 'ascii'], description: 'Output format' },
+        map_name: { type: 'string', description: 'Map to render; defaults to the current one' }
+      }
+    },
+    _meta: { _fastmcp: { tags: ['mode:exploration'] } }
+  },
+  {
+    name: 'record_interaction',
+    description: 'Record a player entry and the game response in the transcript.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        player_entry: { type: 'string' },
+        game_response: { type: 'string' },
+        campaign_name: { type: ['string', 'null'] },
+        session_number: { type: ['integer', 'null'] }
+      },
+      required: ['player_entry', 'game_response']
+    }
+  },
+  {
+    name: 'record_interaction_with_tools',
+    description: 'Record a player entry and the game responses, including tool calls, in the transcript.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        player_entry: { type: 'string' },
+        game_responses: { type: 'array', items: {} },
+        campaign_name: { type: ['string', 'null'] },
+        session_number: { type: ['integer', 'null'] }
+      },
+      required: ['player_entry', 'game_responses']
+    }
+  }
+]
+
+const text = (value: string, isError = false) => ({ content: [{ type: 'text', text: value }], ...(isError ? { isError } : {}) })
+
+function rollDice(notation: string, reason?: string) {
+  const match = String(notation || '').replace(/\s+/g, '').match(/^(\d*)d(\d+)([+-]\d+)?$/i)
+  if (!match) return text(`Invalid dice notation: ${notation}`, true)
+  const count = Math.min(Number(match[1] || 1), 100)
+  const sides = Number(match[2])
+  const modifier = Number(match[3] || 0)
+  const rolls = Array.from({ length: count }, () => 1 + Math.floor(Math.random() * sides))
+  const total = rolls.reduce((a, b) => a + b, 0) + modifier
+  const mod = modifier ? ` ${modifier > 0 ? '+' : '-'} ${Math.abs(modifier)}` : ''
+  return text(`${notation}${reason ? ` (${reason})` : ''}: [${rolls.join(', ')}]${mod} = ${total}`)
+}
+
+// game_responses mixes narration strings with arrays of tool calls, as sent by useChat
+function toTranscriptResponses(gameResponses: any[]): any[] {
+  return (gameResponses || []).map(r => Array.isArray(r)
+    ? {
+        type: 'tools',
+        calls: r.map((call: any) => ({ id: call.tool_id, name: call.tool_name, input: call.tool_parameters, response: call.tool_result }))
+      }
+    : { type: 'text', content: String(r) })
+}
+
+function createMockServer(): Server {
+  const server = new Server(
+    { name: 'gamemaster-mcp-mock', version: '1.0.0' },
+    { capabilities: { tools: {}, resources: {}, prompts: {} } }
+  )
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => ({ resources: RESOURCES }))
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const data = await loadCampaign()
+    const { uri } = request.params
+    const body: Record<string, any> = {
+      'resource://current_campaign': data.name,
+      'resource://current_campaign/characters': data.characters,
+      'resource://current_campaign/game_state': data.game_state,
+      'resource://current_transcript': data.transcript
+    }
+    if (!(uri in body)) throw new Error(`Resource not found: ${uri}`)
+    return { contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(body[uri]) }] }
+  })
+
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+    prompts: [{ name: 'current_prompt', description: 'System prompt for the current campaign' }]
+  }))
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    if (request.params.name !== 'current_prompt') throw new Error(`Prompt not found: ${request.params.name}`)
+    const data = await loadCampaign()
+    return { messages: [{ role: 'user', content: { type: 'text', text: data.prompt } }] }
+  })
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: TOOLS }))
+
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const data = await loadCampaign()
+    const args: any = request.params.arguments ?? {}
+
+    switch (request.params.name) {
+      case 'roll_dice':
+        return rollDice(args.notation, args.reason)
+      case 'render_hex_map':
+        if (args.map_name && args.map_name !== data.hex_map.name) return text(`No map named ${args.map_name} found`, true)
+        return text(JSON.stringify(data.hex_map))
+      case 'record_interaction':
+        data.transcript.children.push({
+          node_type: 'interaction',
+          user_text: args.player_entry,
+          responses: [{ type: 'text', content: args.game_response }]
+        })
+        return text('Interaction recorded')
+      case 'record_interaction_with_tools':
+        data.transcript.children.push({
+          node_type: 'interaction',
+          user_text: args.player_entry,
+          responses: toTranscriptResponses(args.game_responses)
+        })
+        return text('Interaction recorded')
+      default:
+        return text(`Unknown tool: ${request.params.name}`, true)
+    }
+  })
+
+  return server
+}
+
+// Streamable HTTP sessions for browsers reaching the mock through /mcp. A DELETE closes its
+// session; one a browser abandoned is closed once it has been idle for SESSION_IDLE_MS.
+const SESSION_IDLE_MS = 30 * 60 * 1000
+const transports = new Map<string, { transport: StreamableHTTPServerTransport; lastUsed: number }>()
+
+function closeIdleSessions(now: number) {
+  for (const [id, entry] of transports) {
+    if (now - entry.lastUsed < SESSION_IDLE_MS) continue
+    transports.delete(id)
+    entry.transport.close().catch(e => debug.error('❌ Failed to close idle mock MCP session:', e))
+  }
+}
+
+export async function handleMockMcpRequest(event: H3Event, rawBody: string | undefined) {
+  const { req, res } = event.node
+  const sessionId = req.headers['mcp-session-id'] as string | undefined
+  let body: unknown
+  try {
+    body = rawBody ? JSON.parse(rawBody) : undefined
+  } catch {
+    setResponseStatus(event, 400)
+    return { jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } }
+  }
+
+  const now = Date.now()
+  closeIdleSessions(now)
+
+  const entry = sessionId ? transports.get(sessionId) : undefined
+  let transport = entry?.transport
+  if (entry) entry.lastUsed = now
+  if (!transport) {
+    if (sessionId || !isInitializeRequest(body)) {
+      setResponseStatus(event, sessionId ? 404 : 400)
+      return { jsonrpc: '2.0', id: null, error: { code: -32000, message: sessionId ? 'Session not found' : 'Missing session id' } }
+    }
+    const t = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => { transports.set(id, { transport: t, lastUsed: Date.now() }) }
+    })
+    t.onclose = () => { if (t.sessionId) transports.delete(t.sessionId) }
+    await createMockServer().connect(t)
+    transport = t
+  }
+
+  // The SDK writes the response (JSON or SSE) straight to the Node response
+  await transport.handleRequest(req as any, res as any, body)
+}
+
+// Server-side sessions (server-loop mode) talk to the mock over an in-memory pair
+export async function connectMockMcpClient(client: Client) {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+  await createMockServer().connect(serverTransport)
+  await client.connect(clientTransport)
+}
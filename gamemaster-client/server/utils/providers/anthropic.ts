@@ -0,0 +1,201 @@
+// server/utils/providers/anthropic.ts - Anthropic Messages API adapter
+import { ProviderError, isRetryableError } from './errors'
+import type { ChatRequest, ProviderAdapter, StreamEvent, StreamParser, UpstreamRequest } from './types'
+import type { ThinkingBlock } from '../../../types/chatStream'
+
+const CACHE_CONTROL = { type: 'ephemeral' }
+
+// Anthropic rejects empty text blocks, so empty messages never carry a breakpoint
+function hasContent(message: any): boolean {
+  if (typeof message.content === 'string') return message.content.trim().length > 0
+  return Array.isArray(message.content) && message.content.some((b: any) => b?.type !== 'text' || b.text?.trim())
+}
+
+// Mark the last content block of a message as a cache breakpoint
+function withCacheBreakpoint(message: any) {
+  const content = typeof message.content === 'string'
+    ? [{ type: 'text', text: message.content }]
+    : [...message.content]
+  if (content.length === 0) return message
+  content[content.length - 1] = { ...content[content.length - 1], cache_control: CACHE_CONTROL }
+  return { ...message, content }
+}
+
+// Prompt caching: one breakpoint each on the system prompt, the last tool definition and the
+// newest non-empty message. The system prompt and tool list rarely change between turns, and moving the
+// message breakpoint forward every call lets the next call read the whole transcript prefix.
+function applyPromptCaching(payload: any) {
+  if (typeof payload.system === 'string' && payload.system) {
+    payload.system = [{ type: 'text', text: payload.system, cache_control: CACHE_CONTROL }]
+  }
+  if (Array.isArray(payload.tools) && payload.tools.length > 0) {
+    const last = payload.tools.length - 1
+    payload.tools = payload.tools.map((tool: any, i: number) => i === last ? { ...tool, cache_control: CACHE_CONTROL } : tool)
+  }
+  const last = payload.messages.findLastIndex(hasContent)
+  if (last >= 0) {
+    payload.messages = payload.messages.map((m: any, i: number) => i === last ? withCacheBreakpoint(m) : m)
+  }
+}
+
+function buildRequest(req: ChatRequest, config: any): UpstreamRequest {
+  const { apiKey, baseURL, version, promptCaching } = config.anthropic ?? {}
+  if (!apiKey) throw new ProviderError('missing_key', { provider: 'anthropic' })
+
+  const headers: Record<string, string> = {
+    'x-api-key': apiKey,
+    'anthropic-version': version || '2023-06-01',
+    'Content-Type': 'application/json',
+    'Idempotency-Key': crypto.randomUUID()
+  }
+
+  const payload: any = {
+    model: req.model,
+    messages: req.messages.map((m: any) => ({ role: m.role, content: m.content })),
+    ...(req.system ? { system: req.system } : {}),
+    stream: true,
+    temperature: req.temperature ?? 0.7,
+    max_tokens: req.maxTokens ?? 1024,
+    // Include tools if provided by client
+    ...(req.tools && req.tools.length > 0 ? { tools: req.tools } : {})
+  }
+
+  if (req.thinkingBudget && req.thinkingBudget > 0) {
+    // 🧠 Extended thinking: the budget counts towards max_tokens (minimum 1024) and
+    // Anthropic rejects any temperature other than the default when thinking is on
+    const budget = Math.max(req.thinkingBudget, 1024)
+    payload.thinking = { type: 'enabled', budget_tokens: budget }
+    payload.max_tokens += budget
+    delete payload.temperature
+  }
+
+  if (req.mcpServers?.length) {
+    // ✅ enable server-side MCP: Anthropic calls the MCP servers itself
+    headers['anthropic-beta'] = 'mcp-client-2025-04-04'
+    payload.mcp_servers = req.mcpServers.map(server => ({
+      type: 'url',
+      name: server.name,
+      url: server.url,
+      ...(server.authToken ? { authorization_token: server.authToken } : {}),
+      // An empty list switches the server's tools off rather than allowing all of them
+      ...(server.allowedTools ? { tool_configuration: { enabled: server.allowedTools.length > 0, allowed_tools: server.allowedTools } } : {})
+    }))
+  }
+
+  if (promptCaching) applyPromptCaching(payload)
+
+  return {
+    url: `${(baseURL || 'https://api.anthropic.com/v1').replace(/\/+$/, '')}/messages`,
+    headers,
+    payload
+  }
+}
+
+// mcp_tool_result content is a string or a list of content blocks; only the text is kept
+function mcpResultText(content: any): string {
+  if (typeof content === 'string') return content
+  if (!Array.isArray(content)) return content == null ? '' : JSON.stringify(content)
+  return content.map((block: any) => block?.type === 'text' ? block.text : JSON.stringify(block)).join('\n')
+}
+
+function createParser(): StreamParser {
+  // Content block indexes that carry tool_use, so content_block_stop can be attributed
+  const toolBlocks = new Set<number>()
+  // Thinking blocks are assembled here so they can be echoed back with their signature
+  const thinkingBlocks = new Map<number, ThinkingBlock>()
+  // mcp_tool_use blocks run on Anthropic's side; their input is collected and reported once complete
+  const mcpToolBlocks = new Map<number, { id: string; name: string; server?: string; input: any; json: string }>()
+
+  return {
+    parse(evt: any): StreamEvent[] {
+      switch (evt?.type) {
+        case 'message_start': {
+          const usage = evt.message?.usage
+          return usage ? [{
+            type: 'usage',
+            inputTokens: usage.input_tokens,
+            outputTokens: usage.output_tokens,
+            cacheReadTokens: usage.cache_read_input_tokens ?? 0,
+            cacheWriteTokens: usage.cache_creation_input_tokens ?? 0
+          }] : []
+        }
+        case 'content_block_start':
+          if (evt.content_block?.type === 'tool_use') {
+            toolBlocks.add(evt.index)
+            return [{ type: 'tool_call_start', index: evt.index, id: evt.content_block.id, name: evt.content_block.name }]
+          }
+          if (evt.content_block?.type === 'mcp_tool_use') {
+            const { id, name, server_name, input } = evt.content_block
+            mcpToolBlocks.set(evt.index, { id, name, server: server_name, input, json: '' })
+            return []
+          }
+          if (evt.content_block?.type === 'mcp_tool_result') {
+            const { tool_use_id, content, is_error } = evt.content_block
+            return [{ type: 'mcp_tool_result', toolUseId: tool_use_id, content: mcpResultText(content), isError: !!is_error }]
+          }
+          if (evt.content_block?.type === 'thinking') {
+            thinkingBlocks.set(evt.index, { type: 'thinking', thinking: evt.content_block.thinking || '', signature: '' })
+          } else if (evt.content_block?.type === 'redacted_thinking') {
+            thinkingBlocks.set(evt.index, { type: 'redacted_thinking', data: evt.content_block.data })
+          }
+          return []
+        case 'content_block_delta':
+          if (evt.delta?.type === 'text_delta') {
+            return evt.delta.text ? [{ type: 'text', text: evt.delta.text }] : []
+          }
+          if (evt.delta?.type === 'input_json_delta') {
+            const mcpBlock = mcpToolBlocks.get(evt.index)
+            if (mcpBlock) {
+              mcpBlock.json += evt.delta.partial_json || ''
+              return []
+            }
+            return [{ type: 'tool_call_delta', index: evt.index, delta: evt.delta.partial_json || '' }]
+          }
+          if (evt.delta?.type === 'thinking_delta' || evt.delta?.type === 'signature_delta') {
+            const block = thinkingBlocks.get(evt.index)
+            if (block?.type !== 'thinking') return []
+            if (evt.delta.type === 'signature_delta') {
+              block.signature += evt.delta.signature || ''
+              return []
+            }
+            block.thinking += evt.delta.thinking || ''
+            return evt.delta.thinking ? [{ type: 'thinking', text: evt.delta.thinking }] : []
+          }
+          return []
+        case 'content_block_stop': {
+          if (toolBlocks.has(evt.index)) return [{ type: 'tool_call_end', index: evt.index }]
+          const mcpBlock = mcpToolBlocks.get(evt.index)
+          if (mcpBlock) {
+            // Streamed input wins; the start block carries the whole input when nothing was streamed
+            const args = mcpBlock.json || JSON.stringify(mcpBlock.input ?? {})
+            return [{ type: 'mcp_tool_call', id: mcpBlock.id, name: mcpBlock.name, server: mcpBlock.server, arguments: args }]
+          }
+          const block = thinkingBlocks.get(evt.index)
+          return block ? [{ type: 'thinking_block', index: evt.index, block }] : []
+        }
+        case 'message_delta': {
+          const out: StreamEvent[] = []
+          if (evt.usage) out.push({ type: 'usage', outputTokens: evt.usage.output_tokens })
+          if (evt.delta?.stop_reason) out.push({ type: 'stop', reason: evt.delta.stop_reason })
+          return out
+        }
+        case 'error':
+          return [{
+            type: 'error',
+            message: evt.error?.message || 'Unknown error',
+            retryable: isRetryableError({ error: evt.error })
+          }]
+        default:
+          return []
+      }
+    },
+    finish: () => []
+  }
+}
+
+export const anthropicAdapter: ProviderAdapter = {
+  name: 'anthropic',
+  remoteMcp: true,
+  buildRequest,
+  createParser
+}
@@ -0,0 +1,21 @@
+// server/utils/providers/errors.ts - Errors surfaced to the client as llm-error events
+
+// Thrown by adapters when a request cannot be built (missing key, base URL, ...).
+// `code` and `info` are sent verbatim in the llm-error frame.
+export class ProviderError extends Error {
+  constructor(public code: string, public info: Record<string, any> = {}) {
+    super(info.message || code)
+  }
+}
+
+// Helper to check if an error is retryable; `retryStatuses` comes from the provider's retry policy
+export function isRetryableError(error: any, retryStatuses: number[] = [429, 529]): boolean {
+  // Overloaded errors from Anthropic
+  if (error?.error?.type === 'overloaded_error') return true
+  if (error?.error?.message?.toLowerCase().includes('overloaded')) return true
+
+  // Rate limit / overload / transient gateway errors
+  if (typeof error?.status === 'number' && retryStatuses.includes(error.status)) return true
+
+  return false
+}
@@ -0,0 +1,18 @@
+// server/utils/providers/index.ts - Provider adapter registry
+import { anthropicAdapter } from './anthropic'
+import { openaiAdapter } from './openai'
+import { openaicompatAdapter } from './openaicompat'
+import type { ProviderAdapter } from './types'
+
+export * from './types'
+
+const adapters: Record<string, ProviderAdapter> = {
+  anthropic: anthropicAdapter,
+  openai: openaiAdapter,
+  openaicompat: openaicompatAdapter
+}
+
+// Look up the adapter for a base provider ('anthropic', 'openai', 'openaicompat')
+export function getProviderAdapter(provider: string): ProviderAdapter | null {
+  return adapters[provider] ?? null
+}
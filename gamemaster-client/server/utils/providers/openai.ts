@@ -0,0 +1,213 @@
+// server/utils/providers/openai.ts - OpenAI Responses API adapter
+import { ProviderError, isRetryableError } from './errors'
+import type { ChatRequest, ProviderAdapter, RemoteMcpServer, StreamEvent, StreamParser, ToolDefinition, UpstreamRequest } from './types'
+import { logger } from '../logger'
+
+// Responses API reasoning models take an effort level rather than a token budget
+function reasoningEffort(budget: number): 'low' | 'medium' | 'high' {
+  if (budget <= 2048) return 'low'
+  if (budget <= 8192) return 'medium'
+  return 'high'
+}
+
+// Convert Anthropic-style content blocks into Responses API input items
+function toResponsesInput(messages: any[]): any[] {
+  const input: any[] = []
+
+  for (const m of messages) {
+    if (!Array.isArray(m.content)) {
+      input.push({ role: m.role, content: m.content })
+      continue
+    }
+
+    // Reasoning items from an earlier tool iteration go back ahead of their function calls
+    for (const b of m.content) {
+      if (b.type === 'reasoning') {
+        input.push({ type: 'reasoning', id: b.id, summary: b.summary ?? [], ...(b.encrypted_content ? { encrypted_content: b.encrypted_content } : {}) })
+      }
+    }
+
+    const text = m.content
+      .filter((b: any) => b.type === 'text' && b.text)
+      .map((b: any) => b.text)
+      .join('\n\n')
+    if (text) input.push({ role: m.role, content: text })
+
+    for (const b of m.content) {
+      if (b.type === 'tool_use') {
+        input.push({
+          type: 'function_call',
+          call_id: b.id,
+          name: b.name,
+          arguments: JSON.stringify(b.input ?? {})
+        })
+      } else if (b.type === 'tool_result') {
+        input.push({
+          type: 'function_call_output',
+          call_id: b.tool_use_id,
+          output: typeof b.content === 'string' ? b.content : JSON.stringify(b.content)
+        })
+      }
+    }
+  }
+
+  return input
+}
+
+function toResponsesTool(tool: ToolDefinition) {
+  return {
+    type: 'function',
+    name: tool.name,
+    description: tool.description,
+    parameters: tool.input_schema
+  }
+}
+
+// Remote MCP tool: OpenAI lists and calls the server's tools itself (openai-server-mcp)
+function toResponsesMcpTool(server: RemoteMcpServer) {
+  return {
+    type: 'mcp',
+    server_label: server.name,
+    server_url: server.url,
+    require_approval: 'never', // no approval round trips; the turn runs unattended like server-loop mode
+    ...(server.allowedTools ? { allowed_tools: server.allowedTools } : {}),
+    // MCP_AUTH_TOKEN for our /mcp proxy, which swaps in the server's own token upstream
+    ...(server.authToken ? { headers: { Authorization: `Bearer ${server.authToken}` } } : {})
+  }
+}
+
+function buildRequest(req: ChatRequest, config: any): UpstreamRequest {
+  const { apiKey, baseURL } = config.openai ?? {}
+  if (!apiKey) throw new ProviderError('missing_key', { provider: 'openai' })
+
+  // There is no per-server off switch, so a server with no allowed tools is left out
+  const tools = [
+    ...(req.tools ?? []).map(toResponsesTool),
+    ...(req.mcpServers ?? []).filter(s => !s.allowedTools || s.allowedTools.length > 0).map(toResponsesMcpTool)
+  ]
+
+  return {
+    url: `${(baseURL || 'https://api.openai.com/v1').replace(/\/+$/, '')}/responses`,
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      'Content-Type': 'application/json',
+      'Idempotency-Key': crypto.randomUUID()
+    },
+    payload: {
+      model: req.model,
+      input: toResponsesInput(req.messages),
+      ...(req.system ? { instructions: req.system } : {}),
+      stream: true,
+      max_output_tokens: (req.maxTokens ?? 1024) + (req.thinkingBudget ?? 0),
+      ...(req.thinkingBudget && req.thinkingBudget > 0
+        ? { reasoning: { effort: reasoningEffort(req.thinkingBudget), summary: 'auto' } }
+        : {}),
+      ...(tools.length > 0 ? { tools } : {})
+    }
+  }
+}
+
+function createParser(): StreamParser {
+  // mcp_call items by item id; the call is reported once its arguments are complete
+  const mcpCalls = new Map<string, { name: string; server?: string; reported: boolean }>()
+
+  function reportMcpCall(id: string, args: string): StreamEvent[] {
+    const call = mcpCalls.get(id)
+    if (!call || call.reported) return []
+    call.reported = true
+    return [{ type: 'mcp_tool_call', id, name: call.name, server: call.server, arguments: args || '{}' }]
+  }
+
+  return {
+    parse(evt: any): StreamEvent[] {
+      switch (evt?.type) {
+        case 'response.output_text.delta':
+        case 'response.refusal.delta':
+          return typeof evt.delta === 'string' && evt.delta ? [{ type: 'text', text: evt.delta }] : []
+        case 'response.reasoning_summary_text.delta':
+          return typeof evt.delta === 'string' && evt.delta ? [{ type: 'thinking', text: evt.delta }] : []
+        case 'response.reasoning_summary_part.added':
+          // Separate consecutive summary paragraphs
+          return evt.summary_index > 0 ? [{ type: 'thinking', text: '\n\n' }] : []
+        case 'response.output_item.added':
+          if (evt.item?.type === 'function_call') {
+            return [{ type: 'tool_call_start', index: evt.output_index, id: evt.item.call_id, name: evt.item.name }]
+          }
+          if (evt.item?.type === 'mcp_call') {
+            mcpCalls.set(evt.item.id, { name: evt.item.name, server: evt.item.server_label, reported: false })
+          }
+          return []
+        case 'response.mcp_call_arguments.done':
+          return reportMcpCall(evt.item_id, evt.arguments)
+        case 'response.function_call_arguments.delta':
+          return [{ type: 'tool_call_delta', index: evt.output_index, delta: evt.delta || '' }]
+        case 'response.output_item.done':
+          if (evt.item?.type === 'function_call') {
+            return [{
+              type: 'tool_call_end',
+              index: evt.output_index,
+              id: evt.item.call_id,
+              name: evt.item.name,
+              arguments: evt.item.arguments
+            }]
+          }
+          if (evt.item?.type === 'mcp_call') {
+            const { id, name, server_label, arguments: args, output, error } = evt.item
+            if (!mcpCalls.has(id)) mcpCalls.set(id, { name, server: server_label, reported: false })
+            const result = error ? (typeof error === 'string' ? error : error.message || JSON.stringify(error)) : (output ?? '')
+            return [
+              ...reportMcpCall(id, args),
+              { type: 'mcp_tool_result', toolUseId: id, content: String(result), isError: !!error }
+            ]
+          }
+          if (evt.item?.type === 'mcp_list_tools') {
+            // The listing is OpenAI's own; a failure only means the model goes without that server's tools
+            if (evt.item.error) logger.warn('OpenAI could not list remote MCP tools', { server: evt.item.server_label, error: evt.item.error })
+            else logger.debug('OpenAI listed remote MCP tools', { server: evt.item.server_label, count: evt.item.tools?.length ?? 0 })
+            return []
+          }
+          if (evt.item?.type === 'reasoning') {
+            return [{
+              type: 'thinking_block',
+              index: evt.output_index,
+              block: {
+                type: 'reasoning',
+                id: evt.item.id,
+                summary: evt.item.summary ?? [],
+                ...(evt.item.encrypted_content ? { encrypted_content: evt.item.encrypted_content } : {})
+              }
+            }]
+          }
+          return []
+        case 'response.completed': {
+          const usage = evt.response?.usage
+          const out: StreamEvent[] = []
+          if (usage) {
+            // OpenAI caches automatically; cached tokens are reported inside input_tokens
+            const cached = usage.input_tokens_details?.cached_tokens ?? 0
+            out.push({ type: 'usage', inputTokens: usage.input_tokens - cached, outputTokens: usage.output_tokens, cacheReadTokens: cached })
+          }
+          out.push({ type: 'stop', reason: evt.response?.status || 'completed' })
+          return out
+        }
+        case 'error':
+        case 'response.error':
+        case 'response.failed': {
+          const error = evt.error ?? evt.response?.error ?? (evt.message ? { message: evt.message, code: evt.code } : null)
+          if (!error) return []
+          return [{ type: 'error', message: error.message || 'Unknown error', retryable: isRetryableError({ error }) }]
+        }
+        default:
+          return []
+      }
+    },
+    finish: () => []
+  }
+}
+
+export const openaiAdapter: ProviderAdapter = {
+  name: 'openai',
+  remoteMcp: true,
+  buildRequest,
+  createParser
+}
@@ -0,0 +1,159 @@
+// server/utils/providers/openaicompat.ts - OpenAI-compatible Chat Completions adapter
+// (llama.cpp, Ollama, vLLM and other local servers that only implement /chat/completions)
+import { ProviderError, isRetryableError } from './errors'
+import type { ChatRequest, ProviderAdapter, StreamEvent, StreamParser, ToolDefinition, UpstreamRequest } from './types'
+
+// Convert Anthropic-style content blocks (transcript + client tool loop) into Chat Completions messages
+function toChatCompletionsMessages(chatMsgs: any[]): any[] {
+  const out: any[] = []
+
+  for (const m of chatMsgs) {
+    if (!Array.isArray(m.content)) {
+      out.push({ role: m.role, content: m.content })
+      continue
+    }
+
+    const text = m.content
+      .filter((b: any) => b.type === 'text' && b.text)
+      .map((b: any) => b.text)
+      .join('\n\n')
+
+    if (m.role === 'assistant') {
+      const toolCalls = m.content
+        .filter((b: any) => b.type === 'tool_use')
+        .map((b: any) => ({
+          id: b.id,
+          type: 'function',
+          function: { name: b.name, arguments: JSON.stringify(b.input ?? {}) }
+        }))
+
+      out.push({
+        role: 'assistant',
+        content: text || null,
+        ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {})
+      })
+      continue
+    }
+
+    // User turns carry tool results as tool_result blocks; each becomes its own "tool" message
+    for (const b of m.content) {
+      if (b.type !== 'tool_result') continue
+      out.push({
+        role: 'tool',
+        tool_call_id: b.tool_use_id,
+        content: typeof b.content === 'string' ? b.content : JSON.stringify(b.content)
+      })
+    }
+    if (text) out.push({ role: m.role, content: text })
+  }
+
+  return out
+}
+
+function toChatCompletionsTool(tool: ToolDefinition) {
+  return {
+    type: 'function',
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.input_schema
+    }
+  }
+}
+
+function buildRequest(req: ChatRequest, config: any): UpstreamRequest {
+  const { apiKey, baseURL, model } = config.openaicompat ?? {}
+  if (!baseURL) throw new ProviderError('missing_base_url', { provider: 'openaicompat', message: 'Set OPENAICOMPAT_BASE_URL' })
+
+  return {
+    url: `${baseURL.replace(/\/+$/, '')}/chat/completions`,
+    headers: {
+      'Content-Type': 'application/json',
+      // Local servers usually run without auth; only send a key if one is configured
+      ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+    },
+    // Chat Completions carries the system prompt and tool traffic as plain messages
+    payload: {
+      model: model || req.model,
+      messages: [
+        ...(req.system ? [{ role: 'system', content: req.system }] : []),
+        ...toChatCompletionsMessages(req.messages)
+      ],
+      stream: true,
+      // Ask for a final usage chunk (ignored by servers that do not support it)
+      stream_options: { include_usage: true },
+      temperature: req.temperature ?? 0.7,
+      max_tokens: req.maxTokens ?? 1024,
+      ...(req.tools && req.tools.length > 0 ? { tools: req.tools.map(toChatCompletionsTool) } : {})
+    }
+  }
+}
+
+function createParser(): StreamParser {
+  // Chat Completions streams tool calls as per-index fragments and never marks one as finished,
+  // so every open call is closed once the stream ends
+  const toolCalls = new Map<number, { id: string; name: string; arguments: string }>()
+
+  return {
+    parse(evt: any): StreamEvent[] {
+      // llama.cpp / vLLM report mid-stream failures as a bare { error } frame
+      if (evt?.error && !evt?.choices) {
+        const message = evt.error.message || String(evt.error)
+        return [{ type: 'error', message, retryable: isRetryableError({ error: evt.error }) }]
+      }
+
+      const out: StreamEvent[] = []
+      const choice = evt?.choices?.[0]
+      const delta = choice?.delta ?? {}
+
+      if (typeof delta.content === 'string' && delta.content) {
+        out.push({ type: 'text', text: delta.content })
+      }
+
+      for (const tc of delta.tool_calls ?? []) {
+        const index = tc.index ?? toolCalls.size
+        let entry = toolCalls.get(index)
+        if (!entry) {
+          entry = { id: tc.id || `call_${index}_${Date.now()}`, name: '', arguments: '' }
+          toolCalls.set(index, entry)
+          out.push({ type: 'tool_call_start', index, id: entry.id, name: tc.function?.name || '' })
+        }
+        // Some servers split the name across fragments too; tool_call_end carries the whole name
+        if (tc.function?.name) entry.name += tc.function.name
+        if (tc.function?.arguments) {
+          entry.arguments += tc.function.arguments
+          out.push({ type: 'tool_call_delta', index, delta: tc.function.arguments })
+        }
+      }
+
+      if (choice?.finish_reason) out.push({ type: 'stop', reason: choice.finish_reason })
+      if (evt?.usage) {
+        const cached = evt.usage.prompt_tokens_details?.cached_tokens ?? 0
+        out.push({
+          type: 'usage',
+          inputTokens: (evt.usage.prompt_tokens ?? 0) - cached,
+          outputTokens: evt.usage.completion_tokens,
+          cacheReadTokens: cached
+        })
+      }
+
+      return out
+    },
+
+    finish(): StreamEvent[] {
+      return [...toolCalls.entries()].map(([index, tc]) => ({
+        type: 'tool_call_end' as const,
+        index,
+        id: tc.id,
+        name: tc.name,
+        arguments: tc.arguments || '{}'
+      }))
+    }
+  }
+}
+
+export const openaicompatAdapter: ProviderAdapter = {
+  name: 'openaicompat',
+  buildRequest,
+  createParser
+}
@@ -0,0 +1,84 @@
+// server/utils/providers/retry.ts - Per-provider retry policy for upstream LLM requests
+
+export interface RetryPolicy {
+  maxRetries: number        // retries per model, not counting the first attempt
+  baseDelayMs: number       // first backoff delay, doubled on each retry
+  maxDelayMs: number        // cap for both backoff and server retry hints
+  jitter: number            // 0..1, fraction of the delay randomized to spread out retries
+  retryStatuses: number[]   // HTTP statuses worth retrying
+  retryNetworkErrors: boolean
+  fallbackModels: string[]  // tried in order once a model stays overloaded
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 2000,
+  maxDelayMs: 30000,
+  jitter: 0.2,
+  retryStatuses: [408, 429, 500, 502, 503, 504, 529],
+  retryNetworkErrors: true,
+  fallbackModels: []
+}
+
+// Comma-separated env values arrive as strings; JSON overrides may already be arrays
+function toList<T>(value: any, map: (v: string) => T): T[] | undefined {
+  if (Array.isArray(value)) return value.map(v => map(String(v)))
+  if (typeof value === 'string' && value.trim()) return value.split(',').map(v => map(v.trim())).filter(v => v !== '')
+  return undefined
+}
+
+// Merge `runtimeConfig.<provider>.retry` over the defaults
+export function getRetryPolicy(provider: string, config: any): RetryPolicy {
+  const overrides = config?.[provider]?.retry ?? {}
+  const num = (v: any, fallback: number) => (v === undefined || v === '' || isNaN(Number(v)) ? fallback : Number(v))
+
+  return {
+    maxRetries: num(overrides.maxRetries, DEFAULT_RETRY_POLICY.maxRetries),
+    baseDelayMs: num(overrides.baseDelayMs, DEFAULT_RETRY_POLICY.baseDelayMs),
+    maxDelayMs: num(overrides.maxDelayMs, DEFAULT_RETRY_POLICY.maxDelayMs),
+    jitter: Math.min(Math.max(num(overrides.jitter, DEFAULT_RETRY_POLICY.jitter), 0), 1),
+    retryStatuses: toList(overrides.retryStatuses, Number) ?? DEFAULT_RETRY_POLICY.retryStatuses,
+    retryNetworkErrors: overrides.retryNetworkErrors === undefined
+      ? DEFAULT_RETRY_POLICY.retryNetworkErrors
+      : overrides.retryNetworkErrors !== false && overrides.retryNetworkErrors !== 'false',
+    fallbackModels: toList(overrides.fallbackModels, String) ?? []
+  }
+}
+
+// Delay before retry number `retry` (1-based). A server hint wins over backoff.
+export function computeRetryDelay(policy: RetryPolicy, retry: number, hintMs?: number | null): number {
+  if (hintMs != null && hintMs >= 0) return Math.min(hintMs, policy.maxDelayMs)
+
+  const backoff = Math.min(policy.baseDelayMs * Math.pow(2, retry - 1), policy.maxDelayMs)
+  const spread = backoff * policy.jitter
+  return Math.min(policy.maxDelayMs, Math.max(0, Math.round(backoff - spread + Math.random() * spread * 2)))
+}
+
+// Parse a header holding either delta seconds or an HTTP / RFC 3339 date
+function parseDelay(value: string | null, now: number): number | null {
+  if (!value) return null
+  const seconds = Number(value)
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000)
+  const at = Date.parse(value)
+  return isNaN(at) ? null : Math.max(0, at - now)
+}
+
+// Server-provided wait time: retry-after-ms, retry-after, then Anthropic's
+// anthropic-ratelimit-*-reset for whichever limit is exhausted
+export function retryHintFromHeaders(headers: Headers): number | null {
+  const now = Date.now()
+
+  const ms = Number(headers.get('retry-after-ms'))
+  if (headers.get('retry-after-ms') && !isNaN(ms)) return Math.max(0, ms)
+
+  const retryAfter = parseDelay(headers.get('retry-after'), now)
+  if (retryAfter !== null) return retryAfter
+
+  let hint: number | null = null
+  for (const limit of ['requests', 'tokens', 'input-tokens', 'output-tokens']) {
+    if (headers.get(`anthropic-ratelimit-${limit}-remaining`) !== '0') continue
+    const reset = parseDelay(headers.get(`anthropic-ratelimit-${limit}-reset`), now)
+    if (reset !== null) hint = Math.max(hint ?? 0, reset)
+  }
+  return hint
+}
@@ -0,0 +1,49 @@
+// server/utils/providers/types.ts - Provider adapter contract
+import type { StreamEvent, ToolDefinition } from '../../../types/chatStream'
+
+export type { StreamEvent, ToolDefinition }
+
+// Provider-neutral request. Messages use Anthropic-style content blocks (text, tool_use,
+// tool_result) because that is what the transcript and the client tool loop produce.
+export interface ChatRequest {
+  model: string
+  system?: string
+  messages: any[]
+  tools?: ToolDefinition[]
+  maxTokens?: number
+  temperature?: number
+  // Extended thinking / reasoning budget in tokens; 0 or unset disables it
+  thinkingBudget?: number
+  // MCP servers for providers that call MCP themselves (server-MCP modes); `url` is the
+  // public /mcp proxy endpoint and `authToken` the bearer token the provider sends with each call
+  mcpServers?: RemoteMcpServer[]
+}
+
+export interface RemoteMcpServer {
+  name: string
+  url: string
+  authToken?: string
+  // Tool names (unprefixed) the provider may call; unset allows every tool
+  allowedTools?: string[]
+}
+
+export interface UpstreamRequest {
+  url: string
+  headers: Record<string, string>
+  payload: any
+}
+
+// Stateful per upstream response: providers spread one tool call over several frames
+export interface StreamParser {
+  parse(evt: any): StreamEvent[]
+  // Called once the upstream body ends, for providers without an explicit completion frame
+  finish(): StreamEvent[]
+}
+
+export interface ProviderAdapter {
+  name: string
+  // Whether the provider can call remote MCP servers itself (`ChatRequest.mcpServers`)
+  remoteMcp?: boolean
+  buildRequest(req: ChatRequest, config: any): UpstreamRequest
+  createParser(): StreamParser
+}
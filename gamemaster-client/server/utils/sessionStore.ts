@@ -0,0 +1,232 @@
+// server/utils/sessionStore.ts - Storage for chat payloads between POST /session and GET /stream
+import { promises as fs } from 'fs'
+import { randomUUID } from 'crypto'
+import { join, resolve } from 'path'
+import { debug } from './debug'
+
+// A chat session only lives from the POST that stores its payload to the GET that streams it,
+// so the store needs nothing more than set / take with a TTL.
+export interface SessionStore {
+  set(sid: string, payload: any): Promise<void>
+  get(sid: string): Promise<any | undefined>
+  // get + delete in one step; only one caller ever gets a given payload
+  take(sid: string): Promise<any | undefined>
+  delete(sid: string): Promise<void>
+  // Entries currently held, expired ones not yet swept included
+  size(): Promise<number>
+  // Drop expired entries (and, for files, any beyond maxEntries); called on a timer
+  sweep(): Promise<void>
+}
+
+export interface SessionStoreOptions {
+  driver: 'memory' | 'file'
+  ttlSeconds: number
+  maxPayloadBytes: number
+  maxEntries: number
+  dir: string // file driver only
+}
+
+// Thrown when a payload breaks the store limits; `code` and `info` go back to the client
+export class SessionStoreError extends Error {
+  constructor(public code: string, public info: Record<string, any> = {}) {
+    super(info.message || code)
+  }
+}
+
+type Entry = { payload: any; expiresAt: number }
+
+function createMemoryStore(opts: SessionStoreOptions): SessionStore {
+  const entries = new Map<string, Entry>()
+
+  return {
+    async set(sid, payload) {
+      entries.set(sid, { payload, expiresAt: Date.now() + opts.ttlSeconds * 1000 })
+      // Map keeps insertion order, so the first keys are the oldest
+      while (entries.size > opts.maxEntries) {
+        entries.delete(entries.keys().next().value as string)
+      }
+    },
+    async get(sid) {
+      const entry = entries.get(sid)
+      if (!entry) return undefined
+      if (entry.expiresAt <= Date.now()) {
+        entries.delete(sid)
+        return undefined
+      }
+      return entry.payload
+    },
+    async take(sid) {
+      const payload = await this.get(sid)
+      entries.delete(sid)
+      return payload
+    },
+    async delete(sid) {
+      entries.delete(sid)
+    },
+    async size() {
+      return entries.size
+    },
+    async sweep() {
+      const now = Date.now()
+      for (const [sid, entry] of entries) {
+        if (entry.expiresAt <= now) entries.delete(sid)
+      }
+    }
+  }
+}
+
+// Writes between overflow cleanups in the file store; maxEntries may be exceeded by this many until then
+const FILE_CLEANUP_EVERY = 50
+
+// One JSON file per session, so several Node processes on the same host share sessions
+// and a restart between POST and GET does not lose the payload.
+function createFileStore(opts: SessionStoreOptions): SessionStore {
+  const dir = resolve(opts.dir)
+  const fileFor = (sid: string) => join(dir, `${sid.replace(/[^a-zA-Z0-9-]/g, '')}.json`)
+  let ready: Promise<unknown> | null = null
+  const ensureDir = () => (ready ??= fs.mkdir(dir, { recursive: true }))
+
+  async function readEntry(file: string): Promise<Entry | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(file, 'utf8'))
+    } catch {
+      return undefined
+    }
+  }
+
+  // Every entry has the same TTL, so a file's mtime dates it without reading the payload
+  async function listEntries() {
+    const names = (await fs.readdir(dir).catch(() => [] as string[])).filter((n: string) => n.endsWith('.json'))
+    const out: { file: string; expiresAt: number }[] = []
+    for (const name of names) {
+      const file = join(dir, name)
+      const stat = await fs.stat(file).catch(() => null)
+      if (stat) out.push({ file, expiresAt: stat.mtimeMs + opts.ttlSeconds * 1000 })
+    }
+    return out
+  }
+
+  // Drop expired files, then the oldest ones beyond maxEntries
+  async function cleanup() {
+    const now = Date.now()
+    const live: { file: string; expiresAt: number }[] = []
+    for (const entry of await listEntries()) {
+      if (entry.expiresAt <= now) await fs.unlink(entry.file).catch(() => {})
+      else live.push(entry)
+    }
+    if (live.length > opts.maxEntries) {
+      live.sort((a, b) => a.expiresAt - b.expiresAt)
+      await Promise.all(live.slice(0, live.length - opts.maxEntries).map(e => fs.unlink(e.file).catch(() => {})))
+    }
+  }
+
+  let writesSinceCleanup = 0
+
+  return {
+    async set(sid, payload) {
+      await ensureDir()
+      const entry: Entry = { payload, expiresAt: Date.now() + opts.ttlSeconds * 1000 }
+      // Write then rename so a concurrent reader never sees half a file
+      const file = fileFor(sid)
+      await fs.writeFile(`${file}.tmp`, JSON.stringify(entry))
+      await fs.rename(`${file}.tmp`, file)
+
+      // A burst of writes between sweeps still can't grow the directory without bound
+      if (++writesSinceCleanup >= FILE_CLEANUP_EVERY) {
+        writesSinceCleanup = 0
+        await cleanup()
+      }
+    },
+    async get(sid) {
+      const file = fileFor(sid)
+      const entry = await readEntry(file)
+      if (!entry) return undefined
+      if (entry.expiresAt <= Date.now()) {
+        await fs.unlink(file).catch(() => {})
+        return undefined
+      }
+      return entry.payload
+    },
+    async take(sid) {
+      // Claim the file by renaming it first, so two processes can't both read it; the claimed
+      // name still ends in .json and keeps its mtime, so cleanup() sweeps it if we die here
+      const file = fileFor(sid)
+      const claimed = file.replace(/\.json$/, `.taken-${randomUUID()}.json`)
+      try {
+        await fs.rename(file, claimed)
+      } catch {
+        return undefined
+      }
+      const entry = await readEntry(claimed)
+      await fs.unlink(claimed).catch(() => {})
+      if (!entry || entry.expiresAt <= Date.now()) return undefined
+      return entry.payload
+    },
+    async delete(sid) {
+      await fs.unlink(fileFor(sid)).catch(() => {})
+    },
+    async size() {
+      return (await fs.readdir(dir).catch(() => [] as string[])).filter((n: string) => n.endsWith('.json')).length
+    },
+    async sweep() {
+      writesSinceCleanup = 0
+      await cleanup()
+    }
+  }
+}
+
+let store: SessionStore | null = null
+
+function getSessionStoreOptions(): SessionStoreOptions {
+  const { chatSessions } = useRuntimeConfig() as { chatSessions?: Partial<SessionStoreOptions> }
+  return {
+    driver: chatSessions?.driver === 'file' ? 'file' : 'memory',
+    ttlSeconds: Number(chatSessions?.ttlSeconds) || 120,
+    maxPayloadBytes: Number(chatSessions?.maxPayloadBytes) || 5 * 1024 * 1024,
+    maxEntries: Number(chatSessions?.maxEntries) || 500,
+    dir: chatSessions?.dir || '.data/chat-sessions'
+  }
+}
+
+// Process-wide store selected by runtimeConfig.chatSessions.driver
+export function useSessionStore(): SessionStore {
+  if (store) return store
+
+  const opts = getSessionStoreOptions()
+  store = opts.driver === 'file' ? createFileStore(opts) : createMemoryStore(opts)
+  debug.log('🗄️ Chat session store:', opts.driver, { ttlSeconds: opts.ttlSeconds, maxEntries: opts.maxEntries })
+
+  // TTL sweep; unref so the timer never keeps the process alive
+  const s = store
+  const timer = setInterval(() => { s.sweep().catch(e => debug.error('❌ Session sweep failed:', e)) }, Math.max(opts.ttlSeconds * 1000, 10_000))
+  ;(timer as any).unref?.()
+
+  return store
+}
+
+export function getSessionStoreDriver(): SessionStoreOptions['driver'] {
+  return getSessionStoreOptions().driver
+}
+
+// Enforce the configured payload size limit (also applied to POST /api/chat/stream)
+export function checkChatPayloadSize(payload: any) {
+  const { maxPayloadBytes } = getSessionStoreOptions()
+  const size = new TextEncoder().encode(JSON.stringify(payload ?? null)).length
+  if (size > maxPayloadBytes) {
+    throw new SessionStoreError('payload_too_large', { message: `Chat payload is ${size} bytes (max ${maxPayloadBytes})`, size, maxPayloadBytes })
+  }
+}
+
+// Store a payload under a fresh sid, enforcing the configured size limit
+export async function createChatSession(payload: any): Promise<string> {
+  checkChatPayloadSize(payload)
+
+  const sid = crypto.randomUUID()
+  await useSessionStore().set(sid, payload)
+  return sid
+}
+
+// Read and remove a payload; each session is streamed once (reconnects resume the run instead)
+export async function takeChatSession(sid: string): Promise<any | undefined> {
+  return useSessionStore().take(sid)
+}
@@ -0,0 +1,73 @@
+// server/utils/toolModes.ts - Mode-based tool filtering shared by every provider mode
+import { logger } from './logger'
+import { getAnthropicToolDefinitions, readMcpResource } from './mcpTools'
+import { getMcpServers } from './mcpServers'
+import { resolveToolOwner } from '#shared/utils/toolExecution'
+
+const GAME_STATE_URI = 'resource://current_campaign/game_state'
+
+// FastMCP puts tags in _meta._fastmcp.tags; converted tools carry them as `tags`
+export function getToolTags(tool: any): string[] {
+  return tool?._meta?._fastmcp?.tags || tool?.tags || []
+}
+
+// Tools are included if they have:
+// - A tag matching "mode:any"
+// - A tag matching "mode:X" where X is in the activeModes list
+// Untagged tools are excluded while any mode is active; with no active modes every tool is included.
+export function filterToolsByModes<T>(tools: T[], activeModes: string[]): T[] {
+  if (activeModes.length === 0) return tools
+  return tools.filter((tool) => {
+    const tags = getToolTags(tool)
+    return tags.includes('mode:any') || activeModes.some(mode => tags.includes(`mode:${mode}`))
+  })
+}
+
+// `modes` from gamemaster-mcp's game state; no modes (so no filtering) if it can't be read
+export async function getActiveGameModes(): Promise<string[]> {
+  try {
+    const gameState = JSON.parse(await readMcpResource(GAME_STATE_URI) || '{}')
+    return Array.isArray(gameState?.modes) ? gameState.modes : []
+  } catch (error) {
+    logger.warn('Failed to fetch game modes, defaulting to empty', { error })
+    return []
+  }
+}
+
+// Filter by the current game modes. An empty result means the tags and modes disagree,
+// so no tools are sent rather than tools the mode doesn't allow.
+export async function selectToolsForGameModes<T>(tools: T[]): Promise<T[]> {
+  if (!tools.length) return tools
+  const activeModes = await getActiveGameModes()
+  const selected = filterToolsByModes(tools, activeModes)
+  if (!selected.length) {
+    logger.error('No tools match active modes; check tool tags and mode configuration', {
+      activeModes,
+      tools: tools.map((t: any) => ({ name: t.name, tags: getToolTags(t) }))
+    })
+  } else {
+    logger.debug('Filtered tools by game modes', { activeModes, selected: selected.length, total: tools.length })
+  }
+  return selected
+}
+
+// allowed_tools per MCP server for server-MCP mode, so Anthropic offers the same tools the
+// client modes would. Servers missing from the map (no modes active, or tools not listable
+// from here) are left unrestricted.
+export async function getAllowedToolsByServer(): Promise<Map<string, string[]>> {
+  const allowed = new Map<string, string[]>()
+  const activeModes = await getActiveGameModes()
+  if (!activeModes.length) return allowed
+
+  const servers = getMcpServers()
+  const tools = await getAnthropicToolDefinitions()
+  const selected = new Set(filterToolsByModes(tools, activeModes).map(t => t.name))
+  for (const { name } of tools) {
+    const { server, tool } = resolveToolOwner(servers, name)
+    const list = allowed.get(server.name) ?? []
+    if (selected.has(name)) list.push(tool)
+    allowed.set(server.name, list)
+  }
+  logger.debug('Server-MCP allowed tools', { activeModes, allowed: Object.fromEntries(allowed) })
+  return allowed
+}
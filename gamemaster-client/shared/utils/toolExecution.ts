@@ -0,0 +1,173 @@
+// shared/utils/toolExecution.ts - Tool-call execution shared by the client and server tool loops
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js'
+
+export interface ToolCall {
+  id: string
+  type: 'function'
+  function: {
+    name: string
+    arguments: string
+  }
+}
+
+export interface ToolResult {
+  tool_call_id: string
+  content: string
+  isError?: boolean   // sent back as a tool_result with is_error
+  durationMs?: number // time spent in the MCP call, for the tool cards
+}
+
+// What the prefix helpers need from either side's server config
+export interface McpToolOwner {
+  name: string
+  primary: boolean
+}
+
+// Separates the server name from the tool name in aggregated tool lists, e.g. rules__lookup_spell
+export const MCP_TOOL_SEPARATOR = '__'
+
+// Model-facing tool name: the primary server's tools keep their names so transcripts and prompts still match
+export function prefixToolName(server: McpToolOwner, tool: string): string {
+  return server.primary ? tool : `${server.name}${MCP_TOOL_SEPARATOR}${tool}`
+}
+
+// Split a model-facing tool name into its owning server and the server's own tool name
+export function resolveToolOwner<S extends McpToolOwner>(servers: S[], name: string): { server: S; tool: string } {
+  const i = name.indexOf(MCP_TOOL_SEPARATOR)
+  if (i > 0) {
+    const server = servers.find(s => !s.primary && s.name === name.slice(0, i))
+    if (server) return { server, tool: name.slice(i + MCP_TOOL_SEPARATOR.length) }
+  }
+  return { server: servers.find(s => s.primary) ?? servers[0], tool: name }
+}
+
+// Tools tagged `sequential` are order-sensitive and never overlap other calls
+export const SEQUENTIAL_TOOL_TAG = 'sequential'
+
+export type ToolExecutionOptions = { concurrency: number; timeoutMs: number; timeouts: Record<string, number> }
+
+// public runtimeConfig.toolExecution, read by both loops; TOOL_TIMEOUTS is "render_hex_map=60000,..."
+export function parseToolExecutionOptions(config: any): ToolExecutionOptions {
+  const timeouts: Record<string, number> = {}
+  for (const entry of String(config?.timeouts || '').split(',')) {
+    const [name, ms] = entry.split('=').map(s => s.trim())
+    if (name && Number(ms) > 0) timeouts[name] = Number(ms)
+  }
+  return {
+    concurrency: Math.max(1, Number(config?.concurrency) || 4),
+    timeoutMs: Number(config?.timeoutMs) || 30000,
+    timeouts
+  }
+}
+
+// Convert an MCP result to the string sent back to the model
+export function toolResultText(result: unknown): string {
+  if (typeof result === 'string') return result
+  if (result && typeof result === 'object') {
+    // Handle MCP SDK result format
+    const resultContent = (result as any)?.content ?? result
+    if (Array.isArray(resultContent) && resultContent[0]?.text) return resultContent[0].text
+    if (typeof resultContent?.text === 'string') return resultContent.text
+    return JSON.stringify(result, null, 2)
+  }
+  return String(result)
+}
+
+// Transcripts keep only the text, so a failed result is marked there by its "Error" prefix
+export function toolResultTranscriptText(result: ToolResult | undefined): string {
+  if (!result) return 'Error: No result returned'
+  return result.isError && !result.content.startsWith('Error') ? `Error: ${result.content}` : result.content
+}
+
+// How one side reaches the MCP servers; argument parsing, timeouts, errors and scheduling are shared
+export interface ToolTransport {
+  // The MCP tools/call for one model-facing tool call. The SDK sends notifications/cancelled
+  // upstream when the signal aborts or the timeout hits.
+  call: (toolCall: ToolCall, args: Record<string, any>, timeout: number, signal?: AbortSignal) => Promise<unknown>
+  // Error result for arguments that shouldn't be sent, or undefined to go ahead
+  check?: (toolCall: ToolCall, args: Record<string, any>) => ToolResult | undefined
+  onFailure?: (toolCall: ToolCall, reason: string, durationMs: number) => void
+}
+
+// One tool call; unparseable arguments, failures, timeouts and cancellation all become error results
+async function runToolCall(
+  toolCall: ToolCall,
+  transport: ToolTransport,
+  options: ToolExecutionOptions,
+  signal?: AbortSignal
+): Promise<ToolResult> {
+  let args: Record<string, any>
+  try {
+    args = JSON.parse(toolCall.function.arguments)
+  } catch (parseError) {
+    return {
+      tool_call_id: toolCall.id,
+      isError: true,
+      content: `Error parsing tool arguments: ${parseError instanceof Error ? parseError.message : String(parseError)}`
+    }
+  }
+
+  const rejected = transport.check?.(toolCall, args)
+  if (rejected) return rejected
+
+  const timeout = options.timeouts[toolCall.function.name] ?? options.timeoutMs
+  const started = Date.now()
+  try {
+    if (signal?.aborted) throw new Error('Cancelled')
+    const result = await transport.call(toolCall, args, timeout, signal)
+    return {
+      tool_call_id: toolCall.id,
+      content: toolResultText(result),
+      // The tool ran but reported a failure (MCP CallToolResult.isError)
+      ...((result as any)?.isError ? { isError: true } : {}),
+      durationMs: Date.now() - started
+    }
+  } catch (error) {
+    const reason = signal?.aborted
+      ? 'cancelled'
+      : (error as any)?.code === ErrorCode.RequestTimeout
+        ? `timed out after ${timeout}ms`
+        : error instanceof Error ? error.message : String(error)
+    transport.onFailure?.(toolCall, reason, Date.now() - started)
+    return {
+      tool_call_id: toolCall.id,
+      isError: true,
+      content: `Error executing tool ${toolCall.function.name}: ${reason}`,
+      durationMs: Date.now() - started
+    }
+  }
+}
+
+// Independent calls run concurrently (up to TOOL_CONCURRENCY); a `sequential` call waits for the
+// calls before it and holds back the ones after it. Results come back in toolCalls order.
+export async function runToolCalls(
+  toolCalls: ToolCall[],
+  sequential: Set<string>,
+  transport: ToolTransport,
+  options: ToolExecutionOptions,
+  signal?: AbortSignal
+): Promise<ToolResult[]> {
+  const results: ToolResult[] = new Array(toolCalls.length)
+  let i = 0
+  while (i < toolCalls.length) {
+    if (sequential.has(toolCalls[i].function.name)) {
+      results[i] = await runToolCall(toolCalls[i], transport, options, signal)
+      i++
+      continue
+    }
+    // Run of independent calls up to the next sequential one, drained by a fixed pool of workers
+    let end = i
+    while (end < toolCalls.length && !sequential.has(toolCalls[end].function.name)) end++
+    let next = i
+    const worker = async () => {
+      while (next < end) {
+        const k = next++
+        results[k] = await runToolCall(toolCalls[k], transport, options, signal)
+      }
+    }
+    await Promise.all(Array.from({ length: Math.min(options.concurrency, end - i) }, worker))
+    i = end
+  }
+
+  return results
+}
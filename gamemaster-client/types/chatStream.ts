@@ -0,0 +1,47 @@
+// Provider-neutral chat stream protocol shared by the server adapters and the browser
+
+// Every upstream provider is normalized into this event union before it reaches the client.
+// Events travel as plain `data:` SSE frames; transport concerns (llm-error, retry-status,
+// debug, thinking, the final { done: true }) keep their own named events.
+export type StreamEvent =
+  | { type: 'text'; text: string }
+  | { type: 'thinking'; text: string }
+  | { type: 'thinking_block'; index: number; block: ThinkingBlock }
+  | { type: 'tool_call_start'; index: number; id: string; name: string }
+  | { type: 'tool_call_delta'; index: number; delta: string }
+  | { type: 'tool_call_end'; index: number; id?: string; name?: string; arguments?: string }
+  // Tools the provider ran itself against an MCP server (server-MCP modes); display and transcript only
+  | { type: 'mcp_tool_call'; id: string; name: string; server?: string; arguments: string }
+  | { type: 'mcp_tool_result'; toolUseId: string; content: string; isError?: boolean }
+  | { type: 'usage'; inputTokens?: number; outputTokens?: number; cacheReadTokens?: number; cacheWriteTokens?: number; model?: string }
+  | { type: 'stop'; reason: string }
+  | { type: 'error'; message: string; retryable?: boolean }
+
+export type StreamEventType = StreamEvent['type']
+
+// Completed reasoning content. It must be echoed back unchanged ahead of the tool_use blocks
+// when a tool loop continues, but is never shown in the transcript or recorded.
+export type ThinkingBlock =
+  | { type: 'thinking'; thinking: string; signature: string }   // Anthropic
+  | { type: 'redacted_thinking'; data: string }                  // Anthropic, encrypted by safety systems
+  | { type: 'reasoning'; id: string; summary: any[]; encrypted_content?: string } // OpenAI Responses
+
+// Token counts for one upstream call; the server sends exactly one usage event per call.
+// inputTokens excludes prompt-cache traffic, which is counted separately.
+export interface TokenUsage {
+  inputTokens: number
+  outputTokens: number
+  cacheReadTokens?: number
+  cacheWriteTokens?: number
+}
+
+// Tool definition sent by the client; adapters convert it to each provider's wire format
+export interface ToolDefinition {
+  name: string
+  description: string
+  input_schema: {
+    type: 'object'
+    properties: Record<string, any>
+    required?: string[]
+  }
+}